@@ -5,25 +5,46 @@ import cors from 'cors';
 import { config } from './config/env';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import { disconnectKafka } from './config/kafka';
+import { createSocketAdapter, disconnectStore } from './config/store';
 import { logger } from './utils/logger';
 import leaderboardRoutes from './routes/leaderboard.routes';
-import { GameHandler } from './websocket/game.handler';
+import gameRoutes from './routes/game.routes';
+import authRoutes from './routes/auth.routes';
+import analyticsRoutes from './routes/analytics.routes';
+import playerRoutes from './routes/player.routes';
+import tournamentRoutes from './routes/tournament.routes';
+import analysisRoutes from './routes/analysis.routes';
+import { GameHandler, GameServer } from './websocket/game.handler';
+import { socketAuthMiddleware } from './websocket/auth.middleware';
+import { rateLimit } from './middleware/ratelimit.middleware';
+import { gameService } from './services/game.service';
+import { playerService } from './services/player.service';
+import { clusterService } from './services/cluster.service';
+import { searchService } from './services/search.service';
 import { analyticsConsumer } from './consumer/analytics.consumer';
 
 const app = express();
 const httpServer = createServer(app);
 
 // Socket.IO setup with CORS
-const io = new Server(httpServer, {
+const io: GameServer = new Server(httpServer, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST'],
   },
 });
 
+// Relay room broadcasts between instances when running more than one
+const socketAdapter = createSocketAdapter();
+if (socketAdapter) {
+  io.adapter(socketAdapter);
+}
+
 // Middleware
+app.set('trust proxy', config.rateLimit.trustProxy);
 app.use(cors());
 app.use(express.json());
+app.use('/api', rateLimit('rest', config.rateLimit.rest.perIp));
 
 // Health check
 app.get('/health', (req, res) => {
@@ -31,17 +52,44 @@ app.get('/health', (req, res) => {
 });
 
 // Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/leaderboard', leaderboardRoutes);
+app.use('/api/games', gameRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/players', playerRoutes);
+app.use('/api/tournaments', tournamentRoutes);
+app.use('/api/analysis', analysisRoutes);
 
-// WebSocket connection handler
+// WebSocket connection handler; every socket must authenticate first
+io.use(socketAuthMiddleware);
 const gameHandler = new GameHandler(io);
 io.on('connection', (socket) => gameHandler.handleConnection(socket));
 
+let adoptionInterval: NodeJS.Timeout | null = null;
+
+const adoptOrphanedGames = async () => {
+  const games = await gameService.restoreGames();
+  gameHandler.resumeRestoredGames(games);
+};
+
 // Startup
 const startServer = async () => {
   try {
     // Connect to database
     await connectDatabase();
+    await playerService.ensureBotAccounts();
+
+    // Join the cluster, then restore games that were in progress before the
+    // last shutdown and are not owned by another instance
+    await clusterService.start();
+    await adoptOrphanedGames();
+
+    // Keep adopting the games of instances that stop renewing their leases
+    if (config.cluster.driver === 'redis') {
+      adoptionInterval = setInterval(() => {
+        adoptOrphanedGames().catch((error) => logger.error('Failed to adopt games:', error));
+      }, config.cluster.gameLeaseMs);
+    }
 
     // Start Kafka analytics consumer
     await analyticsConsumer.start();
@@ -70,6 +118,12 @@ const shutdown = async () => {
     logger.info('HTTP server closed');
   });
 
+  if (adoptionInterval) {
+    clearInterval(adoptionInterval);
+  }
+  await clusterService.stop();
+  await searchService.stop();
+  await disconnectStore();
   await disconnectDatabase();
   await disconnectKafka();
   
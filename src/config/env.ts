@@ -1,11 +1,78 @@
 import dotenv from 'dotenv';
+import { cpus, hostname } from 'os';
+import { BotDifficulty } from '../models/types';
+import { ClientEvent } from '../models/protocol';
 
 dotenv.config();
 
+// With the development fallback anyone could sign tokens for any account
+if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+  throw new Error('JWT_SECRET must be set in production');
+}
+
 export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3001', 10),
   databaseUrl: process.env.DATABASE_URL || '',
+  auth: {
+    // Required in production; the fallback is for local dev only
+    jwtSecret: process.env.JWT_SECRET || 'dev-only-secret',
+    tokenTtl: process.env.JWT_TTL || '7d',
+    passwordMinLength: 8,
+    bcryptRounds: 10,
+    usernameMinLength: 3,
+    usernameMaxLength: 20,
+    usernamePattern: /^[A-Za-z0-9_-]+$/,
+    // Compared case-insensitively; the bots' usernames are reserved as well,
+    // and "Guest-" is kept for generated guest names
+    reservedUsernames: ['bot', 'admin', 'administrator', 'moderator', 'system', 'server'],
+    reservedUsernamePrefixes: ['guest-'],
+  },
+  rateLimit: {
+    // Budgets are fixed windows of `limit` requests per `windowMs`, counted in
+    // the shared store so they hold across instances
+    socket: {
+      perConnection: { limit: parseInt(process.env.SOCKET_RATE_LIMIT || '20', 10), windowMs: 1000 },
+      perIp: { limit: parseInt(process.env.SOCKET_IP_RATE_LIMIT || '100', 10), windowMs: 1000 },
+      // Tighter per-connection budgets for events that are costly to serve
+      events: {
+        find_match: { limit: 5, windowMs: 10000 },
+        create_private_game: { limit: 5, windowMs: 10000 },
+        join_private_game: { limit: 10, windowMs: 10000 },
+        request_hint: { limit: 5, windowMs: 10000 },
+        offer_draw: { limit: 3, windowMs: 10000 },
+        request_rematch: { limit: 3, windowMs: 10000 },
+      } as Partial<Record<ClientEvent, { limit: number; windowMs: number }>>,
+      maxConnectionsPerUser: parseInt(process.env.MAX_CONNECTIONS_PER_USER || '5', 10),
+      maxConnectionsPerIp: parseInt(process.env.MAX_CONNECTIONS_PER_IP || '50', 10),
+    },
+    rest: {
+      perIp: { limit: parseInt(process.env.REST_RATE_LIMIT || '120', 10), windowMs: 60000 },
+      // Sign-up, sign-in and guest accounts, per IP
+      auth: { limit: parseInt(process.env.AUTH_RATE_LIMIT || '10', 10), windowMs: 60000 },
+      // Position analysis, per signed-in user
+      analysis: { limit: parseInt(process.env.ANALYSIS_RATE_LIMIT || '5', 10), windowMs: 60000 },
+      // Game imports, which analyse unfinished games, per signed-in user
+      gameImport: { limit: parseInt(process.env.IMPORT_RATE_LIMIT || '5', 10), windowMs: 60000 },
+    },
+    // Take the client address from X-Forwarded-For when behind a proxy
+    trustProxy: process.env.TRUST_PROXY === 'true',
+  },
+  cluster: {
+    // "memory" keeps all shared state in-process (single instance, local dev);
+    // "redis" shares it between instances behind a load balancer
+    driver: (process.env.STATE_DRIVER || 'memory') as 'memory' | 'redis',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    instanceId: process.env.INSTANCE_ID || `${hostname()}:${process.pid}`,
+    // An instance owns a game while it keeps renewing the lease; a game whose
+    // lease lapsed is adopted by another instance from its checkpoint
+    gameLeaseMs: parseInt(process.env.GAME_LEASE_MS || '15000', 10),
+    heartbeatInterval: 5000,
+    lockTtlMs: 5000,
+    lockWaitMs: 3000,
+    // How long a forwarded event may take before its acknowledgement fails
+    forwardTimeoutMs: 5000,
+  },
   kafka: {
     broker: process.env.KAFKA_BROKER || 'localhost:9092',
     clientId: process.env.KAFKA_CLIENT_ID || 'connect-four-game',
@@ -14,8 +81,104 @@ export const config = {
   },
   game: {
     matchmakingTimeout: parseInt(process.env.MATCHMAKING_TIMEOUT || '10000', 10),
+    // Bounds of the wait players may pick in find_match; players who opt out
+    // of the bot fallback wait for the maximum unless they pick less
+    matchmakingMinWait: 5000,
+    matchmakingMaxWait: parseInt(process.env.MATCHMAKING_MAX_WAIT || '300000', 10),
+    queueStatusInterval: parseInt(process.env.QUEUE_STATUS_INTERVAL || '3000', 10),
     reconnectTimeout: parseInt(process.env.RECONNECT_TIMEOUT || '30000', 10),
-    rows: 6,
-    cols: 7,
+    // Accepted rating gap between queued players: starts at the base and
+    // grows per second of waiting, up to the maximum
+    ratingWindowBase: parseInt(process.env.RATING_WINDOW_BASE || '100', 10),
+    ratingWindowGrowth: parseInt(process.env.RATING_WINDOW_GROWTH || '50', 10),
+    ratingWindowMax: parseInt(process.env.RATING_WINDOW_MAX || '800', 10),
+    matchmakingSweepInterval: 1000,
+    // How long after game over players can ask for a rematch
+    rematchWindow: parseInt(process.env.REMATCH_WINDOW || '30000', 10),
+    // Draw offers per player per game, and moves that must be played between
+    // two offers from the same player
+    maxDrawOffers: 3,
+    drawOfferInterval: 4,
+    joinCodeLength: 6,
+    defaultVariant: 'standard',
+    // Board presets players can pick at match time
+    variants: {
+      standard: { rows: 6, cols: 7, connect: 4 },
+      large: { rows: 7, cols: 8, connect: 4 },
+      xlarge: { rows: 8, cols: 9, connect: 4 },
+      five: { rows: 6, cols: 9, connect: 5 },
+    } as Record<string, { rows: number; cols: number; connect: number }>,
+    defaultTimeControl: process.env.DEFAULT_TIME_CONTROL || 'rapid',
+    // Clock presets: a bank with increment, or a fixed allowance per move
+    timeControls: {
+      blitz: { initialMs: 180000, incrementMs: 2000, perMoveMs: null },
+      rapid: { initialMs: 600000, incrementMs: 5000, perMoveMs: null },
+      classical: { initialMs: 1800000, incrementMs: 10000, perMoveMs: null },
+      move30: { initialMs: 30000, incrementMs: 0, perMoveMs: 30000 },
+    } as Record<string, { initialMs: number; incrementMs: number; perMoveMs: number | null }>,
+  },
+  tournament: {
+    maxPlayers: 64,
+    nameMaxLength: 50,
+    // A drawn knockout game is replayed with colours swapped this many
+    // times before the higher seed advances
+    maxReplays: 2,
+  },
+  season: {
+    // Seasons are created automatically in blocks of this many calendar months
+    lengthMonths: parseInt(process.env.SEASON_LENGTH_MONTHS || '3', 10),
+  },
+  leaderboard: {
+    defaultPageSize: 50,
+    maxPageSize: 100,
+    // Rolling windows, in hours
+    windows: { daily: 24, weekly: 24 * 7, monthly: 24 * 30 } as Record<string, number>,
+  },
+  analysis: {
+    // Search time shared by all columns of one analysis or hint
+    timeBudgetMs: parseInt(process.env.ANALYSIS_TIME_BUDGET || '3000', 10),
+    maxHintsPerGame: 3,
+  },
+  search: {
+    // Worker threads running engine searches off the event loop
+    workers: parseInt(
+      process.env.SEARCH_WORKERS || String(Math.max(1, Math.min(cpus().length - 1, 4))),
+      10
+    ),
+    // Searches requested by clients waiting for a free worker; more are refused
+    maxQueued: parseInt(process.env.SEARCH_MAX_QUEUED || '8', 10),
+  },
+  annotation: {
+    // Search time per position when reviewing a finished game
+    timeBudgetMs: parseInt(process.env.ANNOTATION_TIME_BUDGET || '300', 10),
+    // Heuristic scores are mapped to an expected score with a logistic curve
+    // of this scale; solved positions count as 1 (win), 0.5 (draw) or 0 (loss)
+    scoreScale: 300,
+    // Largest drop in expected score for each classification; anything
+    // worse is a blunder
+    maxLoss: { good: 0.05, inaccuracy: 0.1, mistake: 0.2 },
+  },
+  rating: {
+    initial: 1500,
+    initialDeviation: 350,
+    initialVolatility: 0.06,
+    tau: 0.5,
+  },
+  bot: {
+    defaultDifficulty: (process.env.BOT_DEFAULT_DIFFICULTY || 'medium') as BotDifficulty,
+    // Settings per difficulty: the username of the bot's player account, the
+    // maximum search depth in plies, time budget per move and the chance of
+    // playing a random legal move instead of the searched one. "perfect" has
+    // no depth cap and searches until solved or out of time.
+    difficulties: {
+      easy: { username: 'EasyBot', maxDepth: 2, timeBudgetMs: 200, randomness: 0.3 },
+      medium: { username: 'MediumBot', maxDepth: 5, timeBudgetMs: 500, randomness: 0 },
+      hard: { username: 'HardBot', maxDepth: 10, timeBudgetMs: 1000, randomness: 0 },
+      perfect: { username: 'PerfectBot', maxDepth: Infinity, timeBudgetMs: parseInt(process.env.BOT_PERFECT_TIME_BUDGET || '2500', 10), randomness: 0 },
+    },
+    maxTableEntries: 500000,
+    // The bot accepts a draw when its evaluation of the position is at or
+    // below this score, i.e. when it does not expect to be better
+    drawAcceptScore: 0,
   },
 };
\ No newline at end of file
@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { config } from './env';
+import { logger } from '../utils/logger';
+
+type MessageListener = (message: string) => void;
+
+/**
+ * State shared between server instances: keys with optional expiry, hashes,
+ * compare-and-set helpers for leases and locks, and pub/sub channels
+ */
+export interface SharedStore {
+  get(key: string): Promise<string | null>;
+  /** Returns false when `onlyIfAbsent` is set and the key already exists */
+  set(key: string, value: string, options?: { ttlMs?: number; onlyIfAbsent?: boolean }): Promise<boolean>;
+  del(key: string): Promise<void>;
+  /** Deletes the key only while it still holds `expected` */
+  compareAndDelete(key: string, expected: string): Promise<boolean>;
+  /** Extends the key's expiry only while it still holds `expected` */
+  compareAndExpire(key: string, expected: string, ttlMs: number): Promise<boolean>;
+  /** Adds one to the counter at `key`, which expires `ttlMs` after it was created */
+  incr(key: string, ttlMs: number): Promise<number>;
+  hset(key: string, field: string, value: string): Promise<void>;
+  hget(key: string, field: string): Promise<string | null>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  hdel(key: string, field: string): Promise<void>;
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, listener: MessageListener): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Single-process store for local development and tests
+ */
+class MemoryStore implements SharedStore {
+  private values: Map<string, { value: string; expiresAt: number | null }> = new Map();
+  private hashes: Map<string, Map<string, string>> = new Map();
+  private emitter = new EventEmitter();
+  private increments = 0;
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key);
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options: { ttlMs?: number; onlyIfAbsent?: boolean } = {}
+  ): Promise<boolean> {
+    if (options.onlyIfAbsent && this.read(key) !== null) {
+      return false;
+    }
+    this.values.set(key, {
+      value,
+      expiresAt: options.ttlMs ? Date.now() + options.ttlMs : null,
+    });
+    return true;
+  }
+
+  async del(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async compareAndDelete(key: string, expected: string): Promise<boolean> {
+    if (this.read(key) !== expected) return false;
+    this.values.delete(key);
+    return true;
+  }
+
+  async compareAndExpire(key: string, expected: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key) !== expected) return false;
+    this.values.set(key, { value: expected, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async incr(key: string, ttlMs: number): Promise<number> {
+    // Counters are keyed by client, so drop the expired ones now and then
+    // rather than only when the same client comes back
+    if (++this.increments % 1000 === 0) {
+      const now = Date.now();
+      for (const [stored, entry] of this.values) {
+        if (entry.expiresAt !== null && entry.expiresAt <= now) this.values.delete(stored);
+      }
+    }
+
+    const current = this.read(key);
+    const count = (current === null ? 0 : Number(current)) + 1;
+    this.values.set(key, {
+      value: String(count),
+      expiresAt: current === null ? Date.now() + ttlMs : this.values.get(key)!.expiresAt,
+    });
+    return count;
+  }
+
+  /**
+   * Reads without yielding, so the check-and-write operations above happen
+   * in one step as they do in Redis
+   */
+  private read(key: string): string | null {
+    const entry = this.values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async hset(key: string, field: string, value: string): Promise<void> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    hash.set(field, value);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    this.hashes.get(key)?.delete(field);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    // Deliver asynchronously, like a real broker would
+    setImmediate(() => this.emitter.emit(channel, message));
+  }
+
+  async subscribe(channel: string, listener: MessageListener): Promise<void> {
+    this.emitter.on(channel, listener);
+  }
+
+  async disconnect(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+const COMPARE_AND_DELETE = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const COMPARE_AND_EXPIRE = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const INCR_WITH_EXPIRY = `
+local count = redis.call('incr', KEYS[1])
+if count == 1 then
+  redis.call('pexpire', KEYS[1], ARGV[1])
+end
+return count`;
+
+class RedisStore implements SharedStore {
+  private client: Redis;
+  private subscriber: Redis;
+  private listeners: Map<string, MessageListener[]> = new Map();
+
+  constructor(url: string) {
+    this.client = new Redis(url);
+    this.subscriber = new Redis(url);
+    this.subscriber.on('message', (channel: string, message: string) => {
+      for (const listener of this.listeners.get(channel) ?? []) {
+        listener(message);
+      }
+    });
+    this.client.on('error', (error) => logger.error('Redis error:', error));
+    this.subscriber.on('error', (error) => logger.error('Redis subscriber error:', error));
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options: { ttlMs?: number; onlyIfAbsent?: boolean } = {}
+  ): Promise<boolean> {
+    const { ttlMs, onlyIfAbsent } = options;
+    let result: string | null;
+    if (ttlMs && onlyIfAbsent) {
+      result = await this.client.set(key, value, 'PX', ttlMs, 'NX');
+    } else if (ttlMs) {
+      result = await this.client.set(key, value, 'PX', ttlMs);
+    } else if (onlyIfAbsent) {
+      result = await this.client.set(key, value, 'NX');
+    } else {
+      result = await this.client.set(key, value);
+    }
+    return result === 'OK';
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async compareAndDelete(key: string, expected: string): Promise<boolean> {
+    return (await this.client.eval(COMPARE_AND_DELETE, 1, key, expected)) === 1;
+  }
+
+  async compareAndExpire(key: string, expected: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.eval(COMPARE_AND_EXPIRE, 1, key, expected, ttlMs)) === 1;
+  }
+
+  async incr(key: string, ttlMs: number): Promise<number> {
+    return (await this.client.eval(INCR_WITH_EXPIRY, 1, key, ttlMs)) as number;
+  }
+
+  async hset(key: string, field: string, value: string): Promise<void> {
+    await this.client.hset(key, field, value);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.client.hget(key, field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.client.hgetall(key);
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    await this.client.hdel(key, field);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: MessageListener): Promise<void> {
+    const listeners = this.listeners.get(channel) ?? [];
+    if (listeners.length === 0) {
+      await this.subscriber.subscribe(channel);
+    }
+    this.listeners.set(channel, [...listeners, listener]);
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all([this.client.quit(), this.subscriber.quit()]);
+  }
+}
+
+let store: SharedStore | null = null;
+// Connections opened for the Socket.IO adapter, closed with the store
+let adapterClients: Redis[] = [];
+
+export const getStore = (): SharedStore => {
+  if (!store) {
+    store =
+      config.cluster.driver === 'redis'
+        ? new RedisStore(config.cluster.redisUrl)
+        : new MemoryStore();
+    logger.info(`✅ Shared state store ready (${config.cluster.driver})`);
+  }
+  return store;
+};
+
+/**
+ * Socket.IO adapter that relays room broadcasts between instances, or null
+ * when running a single in-memory instance
+ */
+export const createSocketAdapter = () => {
+  if (config.cluster.driver !== 'redis') {
+    return null;
+  }
+  const pubClient = new Redis(config.cluster.redisUrl);
+  const subClient = pubClient.duplicate();
+  for (const client of [pubClient, subClient]) {
+    client.on('error', (error) => logger.error('Redis adapter error:', error));
+  }
+  adapterClients = [pubClient, subClient];
+  return createAdapter(pubClient, subClient);
+};
+
+/**
+ * Runs `fn` while holding a short-lived lock on `key`, retrying until the
+ * lock is free or the configured wait runs out. The lock is renewed while
+ * `fn` runs, so it only lapses if this instance stops.
+ */
+export const withLock = async <T>(key: string, fn: () => Promise<T>): Promise<T> => {
+  const shared = getStore();
+  const token = randomUUID();
+  const deadline = Date.now() + config.cluster.lockWaitMs;
+
+  while (!(await shared.set(key, token, { ttlMs: config.cluster.lockTtlMs, onlyIfAbsent: true }))) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${key}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  const renewal = setInterval(() => {
+    shared
+      .compareAndExpire(key, token, config.cluster.lockTtlMs)
+      .then((held) => {
+        if (!held) logger.warn(`Lost lock ${key} while holding it`);
+      })
+      .catch((error) => logger.error(`Failed to renew lock ${key}:`, error));
+  }, config.cluster.lockTtlMs / 3);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(renewal);
+    await shared.compareAndDelete(key, token);
+  }
+};
+
+export const disconnectStore = async (): Promise<void> => {
+  if (adapterClients.length > 0) {
+    await Promise.all(adapterClients.map((client) => client.quit()));
+    adapterClients = [];
+  }
+  if (store) {
+    await store.disconnect();
+    logger.info('Shared state store disconnected');
+  }
+};
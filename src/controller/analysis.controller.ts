@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { analysisService } from '../services/analysis.service';
+import { gameService } from '../services/game.service';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export class AnalysisController {
+  /**
+   * Scores every legal column of a position given either as `board` or as
+   * `moves`, a list of 0-based columns played from the empty board
+   */
+  async analyze(req: Request, res: Response): Promise<void> {
+    try {
+      const { board, moves, variant: variantName = config.game.defaultVariant } = req.body ?? {};
+
+      const variant = typeof variantName === 'string' ? gameService.getVariant(variantName) : null;
+      if (!variant) {
+        res.status(400).json({ success: false, error: 'Invalid game variant' });
+        return;
+      }
+
+      if ((board === undefined) === (moves === undefined)) {
+        res.status(400).json({ success: false, error: 'Provide either a board or a move list' });
+        return;
+      }
+
+      const result =
+        board !== undefined
+          ? await analysisService.analyzeBoard(board, variant)
+          : await analysisService.analyzeMoves(moves, variant);
+
+      if (!result.success) {
+        res.status(result.busy ? 503 : 400).json({ success: false, error: result.error });
+        return;
+      }
+
+      res.json({ success: true, data: { variant: variant.name, ...result.analysis } });
+    } catch (error) {
+      logger.error('Error analysing position:', error);
+      res.status(500).json({ success: false, error: 'Failed to analyse position' });
+    }
+  }
+}
+
+export const analysisController = new AnalysisController();
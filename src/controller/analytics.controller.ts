@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { DateRange, metricsService } from '../services/metrics.service';
+import { gameService } from '../services/game.service';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+
+export class AnalyticsController {
+  async getGamesPerDay(req: Request, res: Response): Promise<void> {
+    await this.respond(req, res, 'games per day', (range) => metricsService.getGamesPerDay(range));
+  }
+
+  async getGamesPerHour(req: Request, res: Response): Promise<void> {
+    await this.respond(req, res, 'games per hour', (range) =>
+      metricsService.getGamesPerHour(range)
+    );
+  }
+
+  async getAverageDuration(req: Request, res: Response): Promise<void> {
+    await this.respond(req, res, 'game duration', (range) =>
+      metricsService.getAverageDuration(range)
+    );
+  }
+
+  async getBotShare(req: Request, res: Response): Promise<void> {
+    await this.respond(req, res, 'bot share', (range) => metricsService.getBotShare(range));
+  }
+
+  async getDisconnectRates(req: Request, res: Response): Promise<void> {
+    await this.respond(req, res, 'disconnect rates', (range) =>
+      metricsService.getDisconnectRates(range)
+    );
+  }
+
+  async getOpenings(req: Request, res: Response): Promise<void> {
+    const variant =
+      typeof req.query.variant === 'string' ? req.query.variant : config.game.defaultVariant;
+    if (!gameService.getVariant(variant)) {
+      res.status(400).json({ success: false, error: 'Invalid game variant' });
+      return;
+    }
+
+    await this.respond(req, res, 'opening popularity', (range) =>
+      metricsService.getOpeningPopularity(range, variant)
+    );
+  }
+
+  private async respond(
+    req: Request,
+    res: Response,
+    metric: string,
+    query: (range: DateRange) => Promise<unknown>
+  ): Promise<void> {
+    try {
+      const range = this.parseRange(req);
+      if (!range) {
+        res.status(400).json({ success: false, error: 'Invalid date range' });
+        return;
+      }
+
+      const data = await query(range);
+      res.json({
+        success: true,
+        data,
+        range: { from: range.from.toISOString(), to: range.to.toISOString() },
+      });
+    } catch (error) {
+      logger.error(`Error fetching ${metric}:`, error);
+      res.status(500).json({ success: false, error: `Failed to fetch ${metric}` });
+    }
+  }
+
+  /**
+   * Reads `?from=` and `?to=` as ISO dates or timestamps. A date-only `to`
+   * includes that whole day; without a range the last 30 days are used.
+   */
+  private parseRange(req: Request): DateRange | null {
+    const { from, to } = req.query;
+    if ((from !== undefined && typeof from !== 'string') || (to !== undefined && typeof to !== 'string')) {
+      return null;
+    }
+
+    const end = to ? new Date(to) : new Date();
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      end.setTime(end.getTime() + DAY_MS);
+    }
+    const start = from ? new Date(from) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return null;
+    }
+    return { from: start, to: end };
+  }
+}
+
+export const analyticsController = new AnalyticsController();
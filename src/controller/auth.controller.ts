@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { authService } from '../services/auth.service';
+import { AuthResult } from '../models/types';
+import { logger } from '../utils/logger';
+
+export class AuthController {
+  async register(req: Request, res: Response): Promise<void> {
+    try {
+      const { username, password } = req.body ?? {};
+      const result = await authService.register(username, password);
+      this.sendResult(res, result, 201, 400);
+    } catch (error) {
+      logger.error('Error registering player:', error);
+      res.status(500).json({ success: false, error: 'Failed to register' });
+    }
+  }
+
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { username, password } = req.body ?? {};
+      const result = await authService.login(username, password);
+      this.sendResult(res, result, 200, 401);
+    } catch (error) {
+      logger.error('Error logging in:', error);
+      res.status(500).json({ success: false, error: 'Failed to log in' });
+    }
+  }
+
+  async guest(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await authService.createGuest();
+      this.sendResult(res, result, 201, 400);
+    } catch (error) {
+      logger.error('Error creating guest player:', error);
+      res.status(500).json({ success: false, error: 'Failed to create guest player' });
+    }
+  }
+
+  private sendResult(
+    res: Response,
+    result: AuthResult,
+    successStatus: number,
+    failureStatus: number
+  ): void {
+    if (!result.success) {
+      res.status(failureStatus).json({ success: false, error: result.error });
+      return;
+    }
+    res
+      .status(successStatus)
+      .json({ success: true, data: { token: result.token, user: result.user } });
+  }
+}
+
+export const authController = new AuthController();
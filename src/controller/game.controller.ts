@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { historyService } from '../services/history.service';
+import { annotationService } from '../services/annotation.service';
+import { notationService } from '../services/notation.service';
+import { analysisService } from '../services/analysis.service';
+import { checkpointService } from '../services/checkpoint.service';
+import { clusterService } from '../services/cluster.service';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+
+export class GameController {
+  async getLiveGames(req: Request, res: Response): Promise<void> {
+    try {
+      const now = Date.now();
+
+      // Read from the shared checkpoints so games on every instance are listed
+      const [activeGames, viewerCounts] = await Promise.all([
+        checkpointService.listActiveGames(),
+        clusterService.getViewerCounts(),
+      ]);
+
+      // Private rooms are only visible to players who know the game id
+      const games = activeGames
+        .filter((game) => !game.isPrivate)
+        .map((game) => ({
+          gameId: game.id,
+          player1: game.player1.username,
+          player2: game.player2?.username ?? null,
+          isVsBot: game.player1.isBot || game.player2?.isBot || false,
+          botDifficulty: game.botDifficulty,
+          variant: game.variant.name,
+          timeControl: game.clock.timeControl.name,
+          currentTurn: game.currentTurn,
+          moveCount: game.moves.length,
+          elapsedSeconds: Math.floor((now - game.createdAt.getTime()) / 1000),
+          viewers: viewerCounts[game.id] ?? 0,
+        }));
+
+      res.json({ success: true, data: games });
+    } catch (error) {
+      logger.error('Error fetching live games:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch live games' });
+    }
+  }
+
+  async getReplay(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const replay = await historyService.getReplay(id);
+      if (!replay) {
+        res.status(404).json({ success: false, error: 'Game not found' });
+        return;
+      }
+
+      // Optional ?ply=N narrows the response to the board after that move
+      if (req.query.ply !== undefined) {
+        const ply = Number(req.query.ply);
+        if (!Number.isInteger(ply) || ply < 0 || ply > replay.moves.length) {
+          res.status(400).json({ success: false, error: 'Invalid ply' });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: {
+            gameId: replay.gameId,
+            ply,
+            move: ply > 0 ? replay.moves[ply - 1] : null,
+            board: replay.snapshots[ply],
+            totalPlies: replay.moves.length,
+          },
+        });
+        return;
+      }
+
+      res.json({ success: true, data: replay });
+    } catch (error) {
+      logger.error('Error fetching game replay:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch game replay' });
+    }
+  }
+
+  /**
+   * Per-move engine classifications and each side's accuracy. Answers 202
+   * while the game is still being reviewed.
+   */
+  async getAnnotations(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const game = await prisma.game.findUnique({ where: { id }, select: { id: true } });
+      if (!game) {
+        res.status(404).json({ success: false, error: 'Game not found' });
+        return;
+      }
+
+      const report = await annotationService.getReport(id);
+      if (!report) {
+        res.status(202).json({ success: true, data: { gameId: id, status: 'pending' } });
+        return;
+      }
+
+      res.json({ success: true, data: { ...report, status: 'ready' } });
+    } catch (error) {
+      logger.error('Error fetching game annotations:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch annotations' });
+    }
+  }
+
+  async getNotation(req: Request, res: Response): Promise<void> {
+    try {
+      const notation = await notationService.exportGame(req.params.id);
+      if (notation === null) {
+        res.status(404).json({ success: false, error: 'Game not found' });
+        return;
+      }
+
+      res.type('text/plain').send(notation);
+    } catch (error) {
+      logger.error('Error exporting game notation:', error);
+      res.status(500).json({ success: false, error: 'Failed to export game' });
+    }
+  }
+
+  /**
+   * Replays a game given in text notation, with the board after every ply
+   * and, for unfinished games, the engine's view of the final position
+   */
+  async importGame(req: Request, res: Response): Promise<void> {
+    try {
+      const notation = req.body?.notation;
+      if (typeof notation !== 'string' || !notation.trim()) {
+        res.status(400).json({ success: false, error: 'Notation is required' });
+        return;
+      }
+
+      const parsed = notationService.parse(notation);
+      if (!parsed.success) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+      }
+
+      const game = parsed.game!;
+      let analysis = null;
+      if (!game.finished) {
+        const result = await analysisService.analyzePosition(
+          game.board,
+          game.moves.length % 2 === 0 ? 'player1' : 'player2',
+          game.variant
+        );
+        if (result.busy) {
+          res.status(503).json({ success: false, error: result.error });
+          return;
+        }
+        analysis = result.analysis;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          headers: game.headers,
+          variant: game.variant.name,
+          moves: game.moves,
+          result: game.result,
+          winner: game.winner,
+          finished: game.finished,
+          snapshots: game.snapshots,
+          analysis,
+        },
+      });
+    } catch (error) {
+      logger.error('Error importing game notation:', error);
+      res.status(500).json({ success: false, error: 'Failed to import game' });
+    }
+  }
+}
+
+export const gameController = new GameController();
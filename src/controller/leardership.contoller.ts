@@ -1,36 +1,102 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
+import { config } from '../config/env';
+import { playerService } from '../services/player.service';
+import { leaderboardService, LeaderboardQuery } from '../services/leaderboard.service';
+import { LeaderboardMode, seasonService } from '../services/season.service';
+import { AuthenticatedUser } from '../models/types';
 import { logger } from '../utils/logger';
 
+const MODES: LeaderboardMode[] = ['human', 'bot'];
+
 export class LeaderboardController {
+  /**
+   * Ranks players all-time, by season (?season=<id>|current), over a rolling
+   * ?window=daily|weekly|monthly, and optionally by ?mode=human|bot. Pages
+   * continue from the `nextCursor` of the previous response.
+   */
   async getLeaderboard(req: Request, res: Response): Promise<void> {
     try {
-      const players = await prisma.player.findMany({
-        orderBy: [
-          { wins: 'desc' },
-          { losses: 'asc' },
-        ],
-        take: 100,
-      });
+      const parsed = await this.parseQuery(req);
+      if ('error' in parsed) {
+        res.status(parsed.status).json({ success: false, error: parsed.error });
+        return;
+      }
 
-      const leaderboard = players.map((player: { username: any; wins: number; losses: any; draws: any; }) => ({
-        username: player.username,
-        wins: player.wins,
-        losses: player.losses,
-        draws: player.draws,
-        winRate:
-          player.wins + player.losses > 0
-            ? ((player.wins / (player.wins + player.losses)) * 100).toFixed(1)
-            : '0.0',
-      }));
+      const limit =
+        req.query.limit === undefined ? config.leaderboard.defaultPageSize : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > config.leaderboard.maxPageSize) {
+        res.status(400).json({ success: false, error: 'Invalid limit' });
+        return;
+      }
+
+      const cursor =
+        typeof req.query.cursor === 'string'
+          ? leaderboardService.decodeCursor(req.query.cursor, parsed.query.sortBy)
+          : null;
+      if (req.query.cursor !== undefined && !cursor) {
+        res.status(400).json({ success: false, error: 'Invalid cursor' });
+        return;
+      }
+
+      const page = await leaderboardService.getPage({ ...parsed.query, limit, cursor });
 
-      res.json({ success: true, data: leaderboard });
+      res.json({ success: true, data: page.entries, nextCursor: page.nextCursor });
     } catch (error) {
       logger.error('Error fetching leaderboard:', error);
       res.status(500).json({ success: false, error: 'Failed to fetch leaderboard' });
     }
   }
 
+  /**
+   * The signed-in player's rank on the board selected by the same query
+   * parameters as the leaderboard
+   */
+  async getMyRank(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = await this.parseQuery(req);
+      if ('error' in parsed) {
+        res.status(parsed.status).json({ success: false, error: parsed.error });
+        return;
+      }
+
+      const user = res.locals.user as AuthenticatedUser;
+      const entry = await leaderboardService.getRank(user.id, parsed.query);
+
+      res.json({ success: true, data: entry });
+    } catch (error) {
+      logger.error('Error fetching leaderboard rank:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch rank' });
+    }
+  }
+
+  /**
+   * The bots' own section: each bot account's record against everyone
+   */
+  async getBots(req: Request, res: Response): Promise<void> {
+    try {
+      const bots = await leaderboardService.getBots();
+
+      res.json({ success: true, data: bots });
+    } catch (error) {
+      logger.error('Error fetching bot leaderboard:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch bot leaderboard' });
+    }
+  }
+
+  async getSeasons(req: Request, res: Response): Promise<void> {
+    try {
+      // Make sure the season in progress is listed even before its first game
+      await seasonService.getCurrentSeason();
+      const seasons = await seasonService.listSeasons();
+
+      res.json({ success: true, data: seasons });
+    } catch (error) {
+      logger.error('Error fetching seasons:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch seasons' });
+    }
+  }
+
   async getPlayerStats(req: Request, res: Response): Promise<void> {
     try {
       const { username } = req.params;
@@ -44,16 +110,43 @@ export class LeaderboardController {
         return;
       }
 
+      // Optional ?opponent=username adds the head-to-head record
+      const opponentName = typeof req.query.opponent === 'string' ? req.query.opponent : null;
+      const opponent = opponentName
+        ? await prisma.player.findUnique({ where: { username: opponentName } })
+        : null;
+
+      if (opponentName && !opponent) {
+        res.status(404).json({ success: false, error: 'Opponent not found' });
+        return;
+      }
+
+      const [profile, accuracy, headToHead] = await Promise.all([
+        playerService.getProfileStats(player.id),
+        playerService.getAccuracy(player.id),
+        opponent ? playerService.getHeadToHead(player.id, opponent.id) : null,
+      ]);
+
       const stats = {
         username: player.username,
+        isBot: player.isBot,
+        botDifficulty: player.botDifficulty,
         wins: player.wins,
         losses: player.losses,
         draws: player.draws,
         totalGames: player.wins + player.losses + player.draws,
+        rating: Math.round(player.rating),
+        ratingDeviation: Math.round(player.ratingDeviation),
         winRate:
           player.wins + player.losses > 0
             ? ((player.wins / (player.wins + player.losses)) * 100).toFixed(1)
             : '0.0',
+        streaks: profile.streaks,
+        vsHuman: profile.vsHuman,
+        vsBot: profile.vsBot,
+        vsBots: profile.vsBots,
+        accuracy,
+        ...(headToHead && { headToHead: { opponent: opponent!.username, ...headToHead } }),
       };
 
       res.json({ success: true, data: stats });
@@ -62,6 +155,77 @@ export class LeaderboardController {
       res.status(500).json({ success: false, error: 'Failed to fetch player stats' });
     }
   }
+
+  async getRatingHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { username } = req.params;
+
+      const player = await prisma.player.findUnique({
+        where: { username },
+      });
+
+      if (!player) {
+        res.status(404).json({ success: false, error: 'Player not found' });
+        return;
+      }
+
+      const history = await prisma.ratingHistory.findMany({
+        where: { playerId: player.id },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      });
+
+      res.json({
+        success: true,
+        data: history.map((entry) => ({
+          gameId: entry.gameId,
+          rating: Math.round(entry.rating),
+          ratingDeviation: Math.round(entry.ratingDeviation),
+          change: Math.round(entry.change),
+          createdAt: entry.createdAt,
+        })),
+      });
+    } catch (error) {
+      logger.error('Error fetching rating history:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch rating history' });
+    }
+  }
+
+  private async parseQuery(
+    req: Request
+  ): Promise<
+    { query: Omit<LeaderboardQuery, 'limit' | 'cursor'> } | { status: number; error: string }
+  > {
+    const sortBy = req.query.sortBy === 'rating' ? 'rating' : 'wins';
+    const window = typeof req.query.window === 'string' ? req.query.window : undefined;
+    const mode = typeof req.query.mode === 'string' ? req.query.mode : undefined;
+    const seasonParam = typeof req.query.season === 'string' ? req.query.season : undefined;
+
+    if (window && !Object.prototype.hasOwnProperty.call(config.leaderboard.windows, window)) {
+      return { status: 400, error: 'Invalid window' };
+    }
+    if (mode && !MODES.includes(mode as LeaderboardMode)) {
+      return { status: 400, error: 'Invalid mode' };
+    }
+    if (window && seasonParam) {
+      return { status: 400, error: 'Choose either a season or a window' };
+    }
+    // Seasonal and windowed boards only count results, ratings are all-time
+    if (sortBy === 'rating' && (window || mode || seasonParam)) {
+      return { status: 400, error: 'Rating order is only available for the all-time leaderboard' };
+    }
+
+    let seasonId: string | undefined;
+    if (seasonParam) {
+      const season = await seasonService.getSeason(seasonParam);
+      if (!season) {
+        return { status: 404, error: 'Season not found' };
+      }
+      seasonId = season.id;
+    }
+
+    return { query: { sortBy, window, mode: mode as LeaderboardMode | undefined, seasonId } };
+  }
 }
 
 export const leaderboardController = new LeaderboardController();
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database';
+import { playerService } from '../services/player.service';
+import { logger } from '../utils/logger';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export class PlayerController {
+  async getGames(req: Request, res: Response): Promise<void> {
+    try {
+      const { username } = req.params;
+      const page = req.query.page === undefined ? 1 : Number(req.query.page);
+      const pageSize =
+        req.query.pageSize === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.pageSize);
+
+      if (!Number.isInteger(page) || page < 1) {
+        res.status(400).json({ success: false, error: 'Invalid page' });
+        return;
+      }
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        res.status(400).json({ success: false, error: 'Invalid page size' });
+        return;
+      }
+
+      const player = await prisma.player.findUnique({
+        where: { username },
+      });
+
+      if (!player) {
+        res.status(404).json({ success: false, error: 'Player not found' });
+        return;
+      }
+
+      const { games, total } = await playerService.getMatchHistory(player.id, page, pageSize);
+
+      res.json({
+        success: true,
+        data: games,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching match history:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch match history' });
+    }
+  }
+}
+
+export const playerController = new PlayerController();
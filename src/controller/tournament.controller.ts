@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { tournamentService } from '../services/tournament.service';
+import { AuthenticatedUser } from '../models/types';
+import { logger } from '../utils/logger';
+
+const STATUSES = ['registration', 'in_progress', 'completed'];
+
+export class TournamentController {
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const user = res.locals.user as AuthenticatedUser;
+      const result = await tournamentService.createTournament(user.id, req.body ?? {});
+
+      if (!result.success) {
+        res.status(400).json({ success: false, error: result.error });
+        return;
+      }
+
+      res.status(201).json({ success: true, data: result.tournament });
+    } catch (error) {
+      logger.error('Error creating tournament:', error);
+      res.status(500).json({ success: false, error: 'Failed to create tournament' });
+    }
+  }
+
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !STATUSES.includes(status)) {
+        res.status(400).json({ success: false, error: 'Invalid status' });
+        return;
+      }
+
+      const tournaments = await tournamentService.listTournaments(status);
+
+      res.json({
+        success: true,
+        data: tournaments.map((tournament) => ({
+          id: tournament.id,
+          name: tournament.name,
+          format: tournament.format,
+          status: tournament.status,
+          variant: tournament.variant,
+          timeControl: tournament.timeControl,
+          players: tournament._count.entries,
+          maxPlayers: tournament.maxPlayers,
+          currentRound: tournament.currentRound,
+          createdAt: tournament.createdAt,
+        })),
+      });
+    } catch (error) {
+      logger.error('Error listing tournaments:', error);
+      res.status(500).json({ success: false, error: 'Failed to list tournaments' });
+    }
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const tournament = await tournamentService.getTournament(req.params.id);
+
+      if (!tournament) {
+        res.status(404).json({ success: false, error: 'Tournament not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...tournament,
+          entries: tournament.entries.map((entry) => ({
+            username: entry.player.username,
+            rating: Math.round(entry.player.rating),
+            seed: entry.seed,
+          })),
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching tournament:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch tournament' });
+    }
+  }
+
+  async register(req: Request, res: Response): Promise<void> {
+    try {
+      const user = res.locals.user as AuthenticatedUser;
+      const result = await tournamentService.register(req.params.id, user.id);
+
+      if (!result.success) {
+        const status = result.error === 'Tournament not found' ? 404 : 409;
+        res.status(status).json({ success: false, error: result.error });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Error registering for tournament:', error);
+      res.status(500).json({ success: false, error: 'Failed to register for tournament' });
+    }
+  }
+
+  async start(req: Request, res: Response): Promise<void> {
+    try {
+      const user = res.locals.user as AuthenticatedUser;
+      const result = await tournamentService.start(req.params.id, user.id);
+
+      if (!result.success) {
+        const status =
+          result.error === 'Tournament not found'
+            ? 404
+            : result.error === 'Only the organiser can start the tournament'
+              ? 403
+              : 409;
+        res.status(status).json({ success: false, error: result.error });
+        return;
+      }
+
+      res.json({ success: true, data: result.tournament });
+    } catch (error) {
+      logger.error('Error starting tournament:', error);
+      res.status(500).json({ success: false, error: 'Failed to start tournament' });
+    }
+  }
+
+  async getBracket(req: Request, res: Response): Promise<void> {
+    try {
+      const bracket = await tournamentService.getBracket(req.params.id);
+
+      if (!bracket) {
+        res.status(404).json({ success: false, error: 'Tournament not found' });
+        return;
+      }
+
+      res.json({ success: true, data: bracket });
+    } catch (error) {
+      logger.error('Error fetching tournament bracket:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch bracket' });
+    }
+  }
+
+  async getStandings(req: Request, res: Response): Promise<void> {
+    try {
+      const standings = await tournamentService.getStandings(req.params.id);
+
+      if (!standings) {
+        res.status(404).json({ success: false, error: 'Tournament not found' });
+        return;
+      }
+
+      res.json({ success: true, data: standings });
+    } catch (error) {
+      logger.error('Error fetching tournament standings:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch standings' });
+    }
+  }
+}
+
+export const tournamentController = new TournamentController();
@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import { CellValue, PlayerSide } from '../models/types';
+import {
+  canPlay,
+  emptyPosition,
+  fromBoard,
+  getRules,
+  isTerminal,
+  isWinningMove,
+  landingRow,
+  legalMoves,
+  play,
+  Position,
+  stoneAt,
+  toBoard,
+  undo,
+  winner,
+} from './bitboard';
+
+const STANDARD = { rows: 6, cols: 7, connect: 4 };
+const FIVE = { rows: 6, cols: 9, connect: 5 };
+
+// Column and row steps of each line direction, rows counted from the top
+const DIRECTIONS: Record<string, [number, number]> = {
+  horizontal: [1, 0],
+  vertical: [0, 1],
+  rising: [1, -1],
+  falling: [1, 1],
+};
+
+function playAll(moves: number[], variant = STANDARD): Position {
+  return moves.reduce(play, emptyPosition(getRules(variant)));
+}
+
+/**
+ * Every line of `connect` cells on the board, as [row, col] pairs
+ */
+function allLines(variant: typeof STANDARD, dCol: number, dRow: number): [number, number][][] {
+  const lines: [number, number][][] = [];
+  for (let row = 0; row < variant.rows; row++) {
+    for (let col = 0; col < variant.cols; col++) {
+      const cells: [number, number][] = [];
+      for (let k = 0; k < variant.connect; k++) {
+        cells.push([row + dRow * k, col + dCol * k]);
+      }
+      if (cells.every(([r, c]) => r >= 0 && r < variant.rows && c >= 0 && c < variant.cols)) {
+        lines.push(cells);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * A board holding the given cells for one side. Every column is filled up
+ * to its highest such cell, so the board obeys gravity, with a pattern in
+ * which neither side has more than two stones in a row.
+ */
+function boardWith(
+  variant: typeof STANDARD,
+  cells: [number, number][],
+  side: PlayerSide
+): CellValue[][] {
+  const board: CellValue[][] = Array.from({ length: variant.rows }, () =>
+    Array(variant.cols).fill('empty')
+  );
+
+  for (let col = 0; col < variant.cols; col++) {
+    const rows = cells.filter(([, c]) => c === col).map(([r]) => r);
+    if (rows.length === 0) continue;
+    for (let row = variant.rows - 1; row >= Math.min(...rows); row--) {
+      const bit = variant.rows - 1 - row;
+      board[row][col] = (Math.floor(bit / 2) + col) % 2 === 0 ? 'player1' : 'player2';
+    }
+  }
+  for (const [row, col] of cells) {
+    board[row][col] = side;
+  }
+  return board;
+}
+
+/**
+ * The side with a line, found by checking every line cell by cell
+ */
+function lineOwner(board: CellValue[][], variant: typeof STANDARD): PlayerSide | null {
+  for (const [dCol, dRow] of Object.values(DIRECTIONS)) {
+    for (const line of allLines(variant, dCol, dRow)) {
+      const first = board[line[0][0]][line[0][1]];
+      if (first !== 'empty' && line.every(([row, col]) => board[row][col] === first)) {
+        return first;
+      }
+    }
+  }
+  return null;
+}
+
+describe('play and undo', () => {
+  it('drops stones to the lowest empty cell and alternates sides', () => {
+    const position = playAll([3, 3, 4]);
+
+    expect(position.moveCount).toBe(3);
+    expect(position.toMove).toBe('player2');
+    expect(position.lastMove).toBe(4);
+    expect(stoneAt(position, 5, 3)).toBe('player1');
+    expect(stoneAt(position, 4, 3)).toBe('player2');
+    expect(stoneAt(position, 5, 4)).toBe('player1');
+    expect(stoneAt(position, 3, 3)).toBe('empty');
+    expect(landingRow(position, 3)).toBe(3);
+  });
+
+  it('returns to every earlier position when undoing', () => {
+    const moves = [3, 2, 3, 4, 0, 6, 6];
+    const positions = [emptyPosition(getRules(STANDARD))];
+    for (const col of moves) {
+      positions.push(play(positions[positions.length - 1], col));
+    }
+
+    let position = positions[positions.length - 1];
+    for (let ply = moves.length - 1; ply >= 0; ply--) {
+      position = undo(position);
+      expect(position).toBe(positions[ply]);
+      expect(toBoard(position)).toEqual(toBoard(positions[ply]));
+    }
+    expect(() => undo(position)).toThrow('No move to undo');
+  });
+
+  it('leaves the position played from unchanged', () => {
+    const before = playAll([3, 4]);
+    const board = toBoard(before);
+    play(before, 2);
+
+    expect(toBoard(before)).toEqual(board);
+    expect(before.moveCount).toBe(2);
+  });
+
+  it('refuses full columns and columns off the board', () => {
+    const position = playAll([0, 0, 0, 0, 0, 0]);
+
+    expect(canPlay(position, 0)).toBe(false);
+    expect(legalMoves(position)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(() => play(position, 0)).toThrow('Illegal move in column 0');
+    expect(() => play(position, -1)).toThrow();
+    expect(() => play(position, 7)).toThrow();
+    expect(() => play(position, 1.5)).toThrow();
+  });
+
+  it('reads back the boards it writes', () => {
+    const position = playAll([3, 3, 2, 4, 4, 5, 6, 0]);
+    const copy = fromBoard(toBoard(position), STANDARD.connect);
+
+    expect(toBoard(copy)).toEqual(toBoard(position));
+    expect(copy.toMove).toBe(position.toMove);
+    expect(copy.moveCount).toBe(position.moveCount);
+  });
+
+  it('detects a full board without a winner', () => {
+    const moves = [
+      6, 4, 0, 1, 5, 5, 5, 5, 2, 0, 1, 4, 4, 3, 4, 1, 2, 0, 6, 6, 0,
+      2, 2, 5, 6, 0, 1, 0, 5, 2, 3, 6, 2, 6, 4, 4, 3, 3, 1, 3, 3, 1,
+    ];
+
+    const position = playAll(moves);
+    expect(winner(position)).toBeNull();
+    expect(isTerminal(position)).toBe(true);
+    expect(legalMoves(position)).toEqual([]);
+  });
+});
+
+describe('win detection', () => {
+  for (const variant of [STANDARD, FIVE]) {
+    for (const [name, [dCol, dRow]] of Object.entries(DIRECTIONS)) {
+      it(`finds every ${name} line on ${variant.rows}x${variant.cols} connect ${variant.connect}`, () => {
+        for (const line of allLines(variant, dCol, dRow)) {
+          for (const side of ['player1', 'player2'] as PlayerSide[]) {
+            const position = fromBoard(boardWith(variant, line, side), variant.connect);
+            expect(winner(position), `${side} on ${JSON.stringify(line)}`).toBe(side);
+          }
+        }
+      });
+
+      it(`finds every ${name} winning move on ${variant.rows}x${variant.cols} connect ${variant.connect}`, () => {
+        for (const line of allLines(variant, dCol, dRow)) {
+          for (const [row, col] of line) {
+            const board = boardWith(variant, line, 'player1');
+            // Only the top stone of a column can be the move that completes the line
+            if (row > 0 && board[row - 1][col] !== 'empty') continue;
+
+            board[row][col] = 'empty';
+            const position = fromBoard(board, variant.connect, 'player1');
+            expect(winner(position)).toBe(lineOwner(board, variant));
+            expect(isWinningMove(position, col), `${JSON.stringify(line)} at column ${col}`).toBe(
+              true
+            );
+          }
+        }
+      });
+    }
+  }
+
+  it('agrees with a cell by cell check on boards one stone short of a line', () => {
+    for (const [dCol, dRow] of Object.values(DIRECTIONS)) {
+      for (const line of allLines(STANDARD, dCol, dRow)) {
+        for (const cells of [line.slice(1), line.slice(0, -1)]) {
+          const board = boardWith(STANDARD, cells, 'player1');
+          expect(winner(fromBoard(board, STANDARD.connect))).toBe(lineOwner(board, STANDARD));
+        }
+      }
+    }
+  });
+
+  it('does not join lines across the side edges of the board', () => {
+    // player1 holds columns 5, 6, 0 and 1 of the bottom row, player2 the
+    // same columns but 1 of the row above
+    const position = playAll([5, 5, 6, 6, 0, 0, 1]);
+
+    expect(winner(position)).toBeNull();
+    expect(isWinningMove(position, 1)).toBe(false);
+  });
+
+  it('ends the game on the winning move', () => {
+    const position = playAll([0, 1, 0, 1, 0, 1]);
+
+    expect(isWinningMove(position, 0)).toBe(true);
+    expect(isWinningMove(position, 2)).toBe(false);
+    expect(winner(play(position, 0))).toBe('player1');
+    expect(isTerminal(play(position, 0))).toBe(true);
+  });
+});
+
+describe('Zobrist keys', () => {
+  it('starts from zero on the empty board', () => {
+    expect(emptyPosition(getRules(STANDARD)).hash).toBe(0);
+  });
+
+  it('gives the same key to the same position reached by different move orders', () => {
+    const first = playAll([3, 2, 4, 5]);
+    const second = playAll([4, 5, 3, 2]);
+
+    expect(toBoard(first)).toEqual(toBoard(second));
+    expect(first.hash).toBe(second.hash);
+  });
+
+  it('matches the key of the same board read from scratch', () => {
+    let position = emptyPosition(getRules(STANDARD));
+    for (const col of [3, 3, 3, 4, 2, 2, 1, 0, 6, 5, 5, 5]) {
+      position = play(position, col);
+      expect(fromBoard(toBoard(position), STANDARD.connect).hash).toBe(position.hash);
+    }
+  });
+
+  it('restores the earlier key on undo', () => {
+    const before = playAll([3, 4, 2]);
+    expect(undo(play(before, 6)).hash).toBe(before.hash);
+  });
+
+  it('tells apart the stones of the two sides', () => {
+    const player1 = fromBoard(boardWith(STANDARD, [[5, 0]], 'player1'), STANDARD.connect);
+    const player2 = fromBoard(boardWith(STANDARD, [[5, 0]], 'player2'), STANDARD.connect);
+
+    expect(player1.hash).not.toBe(player2.hash);
+  });
+
+  it('shares keys between positions of the same board size only', () => {
+    expect(getRules(STANDARD)).toBe(getRules({ ...STANDARD }));
+    expect(getRules(STANDARD)).not.toBe(getRules(FIVE));
+  });
+});
@@ -0,0 +1,262 @@
+import { CellValue, PlayerSide } from '../models/types';
+
+/**
+ * Connect Four rules on bitboards, shared by the game server and the bot.
+ *
+ * Every column is a bitmask of its stones, bit 0 being the bottom row, so
+ * all variants fit in plain 32-bit integers. A position keeps the stones of
+ * the side to move (`current`) and of both sides (`mask`); the opponent's
+ * stones are `current ^ mask`. Positions are never modified: `play` returns
+ * a new position that links back to its parent, which `undo` returns.
+ */
+
+export interface Rules {
+  readonly rows: number;
+  readonly cols: number;
+  readonly connect: number;
+  readonly zobrist: readonly (readonly number[])[][]; // [col][row][side], side 0 = player1
+}
+
+export interface Position {
+  readonly rules: Rules;
+  readonly current: readonly number[]; // stones of the side to move, per column
+  readonly mask: readonly number[]; // all stones, per column
+  readonly toMove: PlayerSide;
+  readonly moveCount: number;
+  readonly hash: number;
+  readonly parent: Position | null;
+  readonly lastMove: number | null;
+}
+
+const rulesCache: Map<string, Rules> = new Map();
+
+export function getRules(variant: { rows: number; cols: number; connect: number }): Rules {
+  const { rows, cols, connect } = variant;
+  // Diagonal checks shift a column by up to connect - 1 bits
+  if (rows + connect > 31) {
+    throw new Error(`Boards of ${rows} rows with connect ${connect} are not supported`);
+  }
+
+  const key = `${rows}x${cols}x${connect}`;
+  let rules = rulesCache.get(key);
+  if (!rules) {
+    // Random keys per cell and side for incremental position hashing;
+    // 31-bit keys keep XOR results inside the safe integer range
+    const zobrist = Array.from({ length: cols }, () =>
+      Array.from({ length: rows }, () => [randomKey(), randomKey()])
+    );
+    rules = { rows, cols, connect, zobrist };
+    rulesCache.set(key, rules);
+  }
+  return rules;
+}
+
+export function emptyPosition(rules: Rules): Position {
+  return {
+    rules,
+    current: Array(rules.cols).fill(0),
+    mask: Array(rules.cols).fill(0),
+    toMove: 'player1',
+    moveCount: 0,
+    hash: 0,
+    parent: null,
+    lastMove: null,
+  };
+}
+
+/**
+ * Reads a board laid out as in GameState (top row first). The board must
+ * obey gravity. The side to move follows from the piece counts unless given.
+ */
+export function fromBoard(board: CellValue[][], connect: number, toMove?: PlayerSide): Position {
+  const rules = getRules({ rows: board.length, cols: board[0].length, connect });
+  const stones = { player1: Array(rules.cols).fill(0), player2: Array(rules.cols).fill(0) };
+  let moveCount = 0;
+  let hash = 0;
+
+  for (let col = 0; col < rules.cols; col++) {
+    for (let bit = 0; bit < rules.rows; bit++) {
+      const cell = board[rules.rows - 1 - bit][col];
+      if (cell === 'empty') continue;
+
+      stones[cell][col] |= 1 << bit;
+      hash ^= rules.zobrist[col][bit][cell === 'player1' ? 0 : 1];
+      moveCount++;
+    }
+  }
+
+  const side = toMove ?? (moveCount % 2 === 0 ? 'player1' : 'player2');
+  return {
+    rules,
+    current: stones[side],
+    mask: stones.player1.map((bits, col) => bits | stones.player2[col]),
+    toMove: side,
+    moveCount,
+    hash,
+    parent: null,
+    lastMove: null,
+  };
+}
+
+export function toBoard(position: Position): CellValue[][] {
+  const { rows, cols } = position.rules;
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col) => stoneAt(position, row, col))
+  );
+}
+
+/**
+ * The stone in a cell, with rows counted from the top as in GameState
+ */
+export function stoneAt(position: Position, row: number, col: number): CellValue {
+  const bit = 1 << (position.rules.rows - 1 - row);
+  if (!(position.mask[col] & bit)) return 'empty';
+  return position.current[col] & bit ? position.toMove : otherSide(position.toMove);
+}
+
+export function canPlay(position: Position, col: number): boolean {
+  return (
+    Number.isInteger(col) &&
+    col >= 0 &&
+    col < position.rules.cols &&
+    !(position.mask[col] & (1 << (position.rules.rows - 1)))
+  );
+}
+
+/**
+ * Playable columns, in the given order if one is passed
+ */
+export function legalMoves(position: Position, order?: readonly number[]): number[] {
+  const columns = order ?? Array.from({ length: position.rules.cols }, (_, col) => col);
+  return columns.filter((col) => canPlay(position, col));
+}
+
+/**
+ * Row, counted from the top, where a stone dropped in the column lands
+ */
+export function landingRow(position: Position, col: number): number {
+  return position.rules.rows - 1 - height(position.mask[col]);
+}
+
+export function play(position: Position, col: number): Position {
+  if (!canPlay(position, col)) {
+    throw new Error(`Illegal move in column ${col}`);
+  }
+
+  const current = position.mask.slice();
+  const mask = position.mask.slice();
+  const stone = position.mask[col] + 1; // lowest empty cell of the column
+
+  // The side to move changes, so the new `current` holds the opponent's stones
+  for (let c = 0; c < current.length; c++) {
+    current[c] ^= position.current[c];
+  }
+  mask[col] |= stone;
+
+  return {
+    rules: position.rules,
+    current,
+    mask,
+    toMove: otherSide(position.toMove),
+    moveCount: position.moveCount + 1,
+    hash:
+      position.hash ^
+      position.rules.zobrist[col][height(position.mask[col])][position.toMove === 'player1' ? 0 : 1],
+    parent: position,
+    lastMove: col,
+  };
+}
+
+export function undo(position: Position): Position {
+  if (!position.parent) {
+    throw new Error('No move to undo');
+  }
+  return position.parent;
+}
+
+/**
+ * Whether the side to move wins by playing the column
+ */
+export function isWinningMove(position: Position, col: number): boolean {
+  if (!canPlay(position, col)) return false;
+
+  return hasLineThrough(position.current, col, position.rules, position.mask[col] + 1);
+}
+
+/**
+ * The side with a line of `connect` stones, if any
+ */
+export function winner(position: Position): PlayerSide | null {
+  const { rules } = position;
+  const opponent = position.current.map((bits, col) => bits ^ position.mask[col]);
+
+  for (let col = 0; col < rules.cols; col++) {
+    if (hasLineThrough(position.current, col, rules)) return position.toMove;
+    if (hasLineThrough(opponent, col, rules)) return otherSide(position.toMove);
+  }
+  return null;
+}
+
+export function isFull(position: Position): boolean {
+  return position.moveCount === position.rules.rows * position.rules.cols;
+}
+
+/**
+ * Whether the game is over: a side has a line or the board is full
+ */
+export function isTerminal(position: Position): boolean {
+  return isFull(position) || winner(position) !== null;
+}
+
+export function otherSide(side: PlayerSide): PlayerSide {
+  return side === 'player1' ? 'player2' : 'player1';
+}
+
+/**
+ * Checks the lines of one side's stones that use the given column: vertical
+ * within the column, and horizontal and both diagonals across every window
+ * of `connect` columns that contains it. `added` holds extra stones for that
+ * column, so a move can be tested without building a new position.
+ */
+function hasLineThrough(
+  stones: readonly number[],
+  col: number,
+  rules: Rules,
+  added: number = 0
+): boolean {
+  const { cols, connect } = rules;
+  const column = stones[col] | added;
+
+  let vertical = column;
+  for (let k = 1; k < connect; k++) {
+    vertical &= column >> k;
+  }
+  if (vertical) return true;
+
+  const first = Math.max(0, col - connect + 1);
+  const last = Math.min(col, cols - connect);
+  for (let start = first; start <= last; start++) {
+    const base = start === col ? column : stones[start];
+    let horizontal = base;
+    let rising = base;
+    let falling = base;
+    for (let k = 1; k < connect && (horizontal || rising || falling); k++) {
+      const bits = start + k === col ? column : stones[start + k];
+      horizontal &= bits;
+      rising &= bits >> k;
+      falling &= bits << k;
+    }
+    if (horizontal || rising || falling) return true;
+  }
+  return false;
+}
+
+function height(columnMask: number): number {
+  let count = 0;
+  for (let bits = columnMask; bits; bits >>= 1) count++;
+  return count;
+}
+
+function randomKey(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
@@ -0,0 +1,21 @@
+import { NextFunction, Request, Response } from 'express';
+import { authService } from '../services/auth.service';
+
+/**
+ * Express middleware for routes that act on behalf of a player: requires a
+ * `Bearer` session token and stores the verified identity on
+ * `res.locals.user`.
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  const user = token ? authService.verifyToken(token) : null;
+
+  if (!user) {
+    res.status(401).json({ success: false, error: 'Authentication required' });
+    return;
+  }
+
+  res.locals.user = user;
+  next();
+};
@@ -0,0 +1,33 @@
+import { NextFunction, Request, Response } from 'express';
+import { rateLimitService, RateLimitRule } from '../services/ratelimit.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Express middleware counting each request against the client IP's budget
+ * under the named rule, or the signed-in user's when `per` is 'user' (mount
+ * it after requireAuth then); requests over budget get a 429 with Retry-After
+ */
+export const rateLimit =
+  (name: string, rule: RateLimitRule, per: 'ip' | 'user' = 'ip') =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const subject =
+        per === 'user' ? `user:${res.locals.user?.id ?? 'unknown'}` : (req.ip ?? 'unknown');
+      const result = await rateLimitService.consume(name, subject, rule);
+
+      if (!result.allowed) {
+        logger.warn(`Rate limit ${name} exceeded by ${subject} (${req.method} ${req.originalUrl})`);
+        res.setHeader('Retry-After', Math.ceil(result.retryAfterMs / 1000));
+        res.status(429).json({
+          success: false,
+          error: 'Too many requests',
+          retryAfterMs: result.retryAfterMs,
+        });
+        return;
+      }
+    } catch (error) {
+      // Serve the request rather than fail it when the store is unavailable
+      logger.error(`Rate limit ${name} check failed:`, error);
+    }
+    next();
+  };
@@ -0,0 +1,312 @@
+import {
+  BotDifficulty,
+  CellValue,
+  ColumnAnalysis,
+  GameResult,
+  GameSeries,
+  GameVariant,
+  PlayerSide,
+  Position,
+  QueueStatus,
+  TimeControl,
+  TournamentEvent,
+} from './types';
+import { config } from '../config/env';
+
+/**
+ * The Socket.IO contract between the server and its clients: the payload of
+ * every event in both directions, the error codes, and the schemas inbound
+ * payloads are validated against. Besides types it only reads the bot
+ * difficulties from the config.
+ *
+ * Clients list the protocol versions they speak in the handshake
+ * (`io(url, { auth: { token, protocolVersions: [1] } })`); the server picks
+ * the newest one it supports, announces it in `session`, or refuses the
+ * connection with an `UNSUPPORTED_PROTOCOL` error. Clients that send no
+ * versions are treated as speaking version 1.
+ *
+ * Every client event accepts an acknowledgement callback as its last
+ * argument, answered with an `AckResponse`. Failures of requests sent with
+ * a callback go to the callback; without one they arrive as `error` events.
+ */
+
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+export type ErrorCode =
+  | 'UNAUTHORIZED' // handshake without a valid session token
+  | 'UNSUPPORTED_PROTOCOL' // no protocol version in common
+  | 'TOO_MANY_CONNECTIONS' // the account or address has the maximum number of sockets open
+  | 'RATE_LIMITED' // too many events; retry after `retryAfterMs`
+  | 'INVALID_PAYLOAD' // the payload does not match the event's schema
+  | 'INVALID_OPTION' // unknown bot difficulty, variant or time control
+  | 'INVALID_JOIN_CODE'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'GAME_NOT_FOUND'
+  | 'GAME_UNAVAILABLE' // the game exists but can no longer be joined or rematched
+  | 'GAME_NOT_ACTIVE'
+  | 'NOT_QUEUED' // cancel_matchmaking without a pending find_match
+  | 'NOT_ALLOWED' // the sender's role in the game does not permit the request
+  | 'MOVE_REJECTED'
+  | 'REQUEST_REJECTED' // the game refused a draw, hint or rematch request
+  | 'INTERNAL_ERROR';
+
+export interface ProtocolError {
+  code: ErrorCode;
+  message: string;
+  retryAfterMs?: number;
+}
+
+export type AckResponse = { ok: true } | { ok: false; error: ProtocolError };
+export type Ack = (response: AckResponse) => void;
+
+interface GameRef {
+  gameId: string;
+}
+
+interface TournamentRef {
+  tournamentId: string;
+}
+
+export interface ClientEvents {
+  find_match: {
+    difficulty?: BotDifficulty;
+    variant?: string;
+    timeControl?: string;
+    botFallback?: boolean;
+    maxWaitMs?: number;
+  };
+  cancel_matchmaking: {};
+  make_move: { gameId: string; column: number };
+  rejoin_game: GameRef;
+  create_private_game: { variant?: string; timeControl?: string };
+  join_private_game: { joinCode: string };
+  cancel_private_game: GameRef;
+  spectate_game: GameRef;
+  stop_spectating: GameRef;
+  resign: GameRef;
+  offer_draw: GameRef;
+  respond_draw: { gameId: string; accept: boolean };
+  request_hint: GameRef;
+  request_rematch: GameRef;
+  accept_rematch: GameRef;
+  decline_rematch: GameRef;
+  subscribe_tournament: TournamentRef;
+  unsubscribe_tournament: TournamentRef;
+}
+
+export type ClientEvent = keyof ClientEvents;
+
+// Events about one game, run on the instance that owns the game
+export type GameEvent = {
+  [E in ClientEvent]: ClientEvents[E] extends GameRef ? E : never;
+}[ClientEvent];
+
+// A game event with its payload, as run by the owner of the game. Private
+// games are joined by id once the join code has been looked up.
+export type RoutedGameEvent =
+  | { [E in GameEvent]: { event: E; data: ClientEvents[E] } }[GameEvent]
+  | { event: 'join_private_game'; data: GameRef };
+
+type Clock = Record<PlayerSide, number>;
+
+export type TournamentEvents = {
+  [T in Exclude<TournamentEvent['type'], 'game_ready'> as `tournament_${T}`]: Extract<
+    TournamentEvent,
+    { type: T }
+  >;
+};
+
+export interface ServerEvents extends TournamentEvents {
+  session: { protocolVersion: number; supportedVersions: readonly number[]; userId: string };
+  error: ProtocolError;
+  waiting_for_opponent: void;
+  queue_status: QueueStatus;
+  matchmaking_cancelled: { reason: 'cancelled' | 'timeout' };
+  game_found: {
+    gameId: string;
+    playerId: string;
+    opponent: string;
+    isVsBot: boolean;
+    botDifficulty: BotDifficulty | null;
+    variant: GameVariant;
+    timeControl: TimeControl;
+    clock: Clock;
+    currentTurn: PlayerSide;
+    series: GameSeries | null;
+  };
+  private_game_created: {
+    gameId: string;
+    joinCode: string | null;
+    playerId: string;
+    variant: GameVariant;
+    timeControl: TimeControl;
+  };
+  private_game_cancelled: GameRef;
+  spectate_started: {
+    gameId: string;
+    player1: string;
+    player2: string;
+    variant: GameVariant;
+    board: CellValue[][];
+    currentTurn: PlayerSide;
+    moveCount: number;
+    clock: Clock;
+  };
+  viewer_count: { gameId: string; viewers: number };
+  move_made: { position: Position | undefined; player: PlayerSide; board: CellValue[][]; clock: Clock };
+  game_over: {
+    winner: string | undefined;
+    isDraw: boolean | undefined;
+    reason: GameResult | null;
+    board: CellValue[][];
+    series: GameSeries;
+    rematchWindowMs: number;
+  };
+  game_rejoined: {
+    gameId: string;
+    variant: GameVariant;
+    board: CellValue[][];
+    currentTurn: PlayerSide;
+    clock: Clock;
+    opponent: string | undefined;
+  };
+  opponent_disconnected: void;
+  draw_offered: { gameId: string; offeredBy: string };
+  draw_declined: { gameId: string; declinedBy?: string; reason?: 'move_made' };
+  hint: { gameId: string; bestColumn: number; columns: ColumnAnalysis[]; hintsRemaining: number };
+  rematch_requested: { gameId: string; requestedBy: string };
+  rematch_declined: GameRef;
+  rematch_expired: GameRef;
+  tournament_game_ready: { tournamentId: string; round: number; gameId: string };
+}
+
+export type ServerEvent = keyof ServerEvents;
+
+// Listener maps in the shape Socket.IO's typed Server and Socket expect
+type Listeners<Events> = {
+  [E in keyof Events]: Events[E] extends void ? () => void : (payload: Events[E]) => void;
+};
+export type ClientListeners = {
+  [E in ClientEvent]: (payload: ClientEvents[E], ack?: Ack) => void;
+};
+export type ServerListeners = Listeners<ServerEvents>;
+
+export type FieldSchema =
+  | { type: 'string'; optional?: boolean; maxLength: number; values?: readonly string[] }
+  | { type: 'integer'; optional?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; optional?: boolean };
+
+export type PayloadSchema<T> = { [K in keyof T]-?: FieldSchema };
+
+const id: FieldSchema = { type: 'string', maxLength: 64 };
+const gameRef: PayloadSchema<GameRef> = { gameId: id };
+const tournamentRef: PayloadSchema<TournamentRef> = { tournamentId: id };
+const option: FieldSchema = { type: 'string', optional: true, maxLength: 32 };
+
+export const CLIENT_EVENT_SCHEMAS: { [E in ClientEvent]: PayloadSchema<ClientEvents[E]> } = {
+  find_match: {
+    difficulty: {
+      type: 'string',
+      optional: true,
+      maxLength: 16,
+      values: Object.keys(config.bot.difficulties),
+    },
+    variant: option,
+    timeControl: option,
+    botFallback: { type: 'boolean', optional: true },
+    maxWaitMs: { type: 'integer', optional: true, min: 0 },
+  },
+  cancel_matchmaking: {},
+  make_move: { gameId: id, column: { type: 'integer', min: 0 } },
+  rejoin_game: gameRef,
+  create_private_game: { variant: option, timeControl: option },
+  join_private_game: { joinCode: { type: 'string', maxLength: 16 } },
+  cancel_private_game: gameRef,
+  spectate_game: gameRef,
+  stop_spectating: gameRef,
+  resign: gameRef,
+  offer_draw: gameRef,
+  respond_draw: { gameId: id, accept: { type: 'boolean' } },
+  request_hint: gameRef,
+  request_rematch: gameRef,
+  accept_rematch: gameRef,
+  decline_rematch: gameRef,
+  subscribe_tournament: tournamentRef,
+  unsubscribe_tournament: tournamentRef,
+};
+
+export const CLIENT_EVENTS = Object.keys(CLIENT_EVENT_SCHEMAS) as ClientEvent[];
+
+/**
+ * Checks a payload against the event's schema. Unknown fields are rejected;
+ * a missing payload counts as an empty object.
+ */
+export function validatePayload<E extends ClientEvent>(
+  event: E,
+  payload: unknown
+): { success: boolean; data?: ClientEvents[E]; error?: string } {
+  const schema: Record<string, FieldSchema> = CLIENT_EVENT_SCHEMAS[event];
+  const value = payload ?? {};
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { success: false, error: 'Payload must be an object' };
+  }
+
+  const fields = value as Record<string, unknown>;
+  const unknown = Object.keys(fields).find(
+    (key) => !Object.prototype.hasOwnProperty.call(schema, key)
+  );
+  if (unknown) {
+    return { success: false, error: `Unknown field "${unknown}"` };
+  }
+
+  for (const [name, field] of Object.entries(schema)) {
+    const error = checkField(field, fields[name]);
+    if (error) {
+      return { success: false, error: `Field "${name}" ${error}` };
+    }
+  }
+
+  return { success: true, data: fields as ClientEvents[E] };
+}
+
+function checkField(field: FieldSchema, value: unknown): string | null {
+  if (value === undefined) {
+    return field.optional ? null : 'is required';
+  }
+
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      if (value.length === 0 || value.length > field.maxLength) {
+        return `must be 1 to ${field.maxLength} characters`;
+      }
+      if (field.values && !field.values.includes(value)) {
+        return `must be one of ${field.values.join(', ')}`;
+      }
+      return null;
+    case 'integer':
+      if (!Number.isInteger(value)) return 'must be an integer';
+      if (field.min !== undefined && (value as number) < field.min) {
+        return `must be at least ${field.min}`;
+      }
+      if (field.max !== undefined && (value as number) > field.max) {
+        return `must be at most ${field.max}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+  }
+}
+
+/**
+ * The newest version both sides speak, or null if there is none
+ */
+export function negotiateVersion(clientVersions: unknown): number | null {
+  const offered = clientVersions === undefined ? [1] : clientVersions;
+  if (!Array.isArray(offered)) return null;
+
+  const common = SUPPORTED_PROTOCOL_VERSIONS.filter((version) => offered.includes(version));
+  return common.length > 0 ? Math.max(...common) : null;
+}
@@ -1,6 +1,11 @@
+import { Tournament } from '@prisma/client';
+import { AckResponse, RoutedGameEvent, ServerEvent, ServerListeners } from './protocol';
+
 export type CellValue = 'empty' | 'player1' | 'player2';
 export type GameStatus = 'waiting' | 'active' | 'completed' | 'forfeited';
-export type GameResult = 'win' | 'draw' | 'forfeit';
+export type GameResult = 'win' | 'draw' | 'forfeit' | 'timeout';
+export type PlayerSide = 'player1' | 'player2';
+export type BotDifficulty = 'easy' | 'medium' | 'hard' | 'perfect';
 
 export interface Position {
   row: number;
@@ -12,24 +17,203 @@ export interface Player {
   username: string;
   socketId: string;
   isBot: boolean;
+  rating?: number;
+}
+
+export interface MoveRecord {
+  playerId: string;
+  column: number;
+  row: number;
+  ply: number;
+  timestamp: Date;
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  isGuest: boolean;
+}
+
+export interface AuthResult {
+  success: boolean;
+  token?: string;
+  user?: AuthenticatedUser;
+  error?: string;
 }
 
 export interface GameBoard {
   cells: CellValue[][];
 }
 
+export interface GameVariant {
+  name: string;
+  rows: number;
+  cols: number;
+  connect: number;
+}
+
+export interface TimeControl {
+  name: string;
+  initialMs: number; // starting bank per player
+  incrementMs: number; // added to the mover's bank after each move
+  perMoveMs: number | null; // fixed allowance per move instead of a bank
+}
+
+export interface GameClock {
+  timeControl: TimeControl;
+  remainingMs: Record<PlayerSide, number>;
+  turnStartedAt: Date | null;
+}
+
 export interface GameState {
   id: string;
+  variant: GameVariant;
   board: CellValue[][];
+  moves: MoveRecord[];
   player1: Player;
   player2: Player | null;
   currentTurn: 'player1' | 'player2';
   status: GameStatus;
   winner: string | null;
+  endReason: GameResult | null;
   createdAt: Date;
   lastMoveAt: Date;
   disconnectedPlayer: string | null;
+  disconnectDeadline: Date | null;
   disconnectTimeout: NodeJS.Timeout | null;
+  clock: GameClock;
+  clockTimeout: NodeJS.Timeout | null;
+  botDifficulty: BotDifficulty | null;
+  isPrivate: boolean;
+  joinCode: string | null;
+  series: GameSeries | null; // score of earlier games when this game is a rematch
+  drawOffers: DrawOffer[]; // every offer made so far, for the anti-spam limits
+  pendingDrawOffer: string | null; // id of the player whose offer awaits an answer
+  tournamentId: string | null;
+  hintsUsed: Record<string, number>; // hints requested per player id
+}
+
+export interface DrawOffer {
+  playerId: string;
+  ply: number; // moves played when the offer was made
+}
+
+/**
+ * Running score of a game and its consecutive rematches
+ */
+export interface GameSeries {
+  id: string; // id of the first game of the series
+  gamesPlayed: number;
+  scores: Record<string, number>; // wins per player id
+  draws: number;
+}
+
+export interface QueueOptions {
+  botDifficulty?: BotDifficulty;
+  variant?: GameVariant;
+  timeControl?: TimeControl;
+  // Players who opt out of the bot fallback leave the queue when their wait
+  // runs out instead
+  botFallback?: boolean;
+  maxWaitMs?: number;
+}
+
+export interface QueueStatus {
+  position: number; // 1 for the longest waiting player
+  waiting: number; // players in the same variant and time control queue
+  waitedMs: number;
+  estimatedWaitMs: number | null; // remaining; null while there is nothing to go on
+  botFallbackInMs: number | null; // null for players who opted out
+}
+
+export type MatchmakingEvent =
+  | { type: 'status'; socketId: string; status: QueueStatus }
+  | { type: 'expired'; socketId: string };
+
+export interface CreateGameOptions {
+  variant?: GameVariant;
+  timeControl?: TimeControl;
+  botDifficulty?: BotDifficulty | null;
+  isPrivate?: boolean;
+  series?: GameSeries | null;
+  tournamentId?: string;
+}
+
+export type TournamentFormat = 'round_robin' | 'single_elimination';
+
+export interface CreateTournamentOptions {
+  name: string;
+  format: TournamentFormat;
+  variant?: string;
+  timeControl?: string;
+  maxPlayers?: number;
+}
+
+export interface TournamentResult {
+  success: boolean;
+  tournament?: Tournament;
+  error?: string;
+}
+
+export type TournamentEvent =
+  | { type: 'player_registered'; tournamentId: string; playerId: string; username: string }
+  | { type: 'round_started'; tournamentId: string; round: number }
+  | { type: 'game_ready'; tournamentId: string; round: number; game: GameState }
+  | {
+      type: 'match_completed';
+      tournamentId: string;
+      round: number;
+      matchId: string;
+      winnerId: string | null;
+      result: string;
+    }
+  | { type: 'completed'; tournamentId: string; winnerId: string | null };
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveAnnotation {
+  ply: number;
+  playerId: string;
+  column: number;
+  classification: MoveClassification;
+  bestColumn: number;
+  outcome: MoveOutcome | null; // engine verdict of the move played, when solved
+  bestOutcome: MoveOutcome | null;
+  expectedLoss: number; // drop in expected score (0-1) against the best move
+}
+
+export interface HintResult {
+  success: boolean;
+  hintsRemaining?: number;
+  error?: string;
+}
+
+export type MoveOutcome = 'win' | 'loss' | 'draw';
+
+export interface ColumnAnalysis {
+  column: number;
+  outcome: MoveOutcome | null; // null when the search could not solve the position
+  distance: number | null; // plies until the game ends, counting this move
+  score: number; // engine score for the side to move, higher is better
+}
+
+export interface PositionAnalysis {
+  toMove: PlayerSide;
+  bestColumn: number;
+  columns: ColumnAnalysis[];
+}
+
+export interface AnalysisResult {
+  success: boolean;
+  analysis?: PositionAnalysis;
+  error?: string;
+  busy?: boolean; // the search pool could not take the request
+}
+
+export interface DrawOfferResult {
+  success: boolean;
+  accepted?: boolean;
+  error?: string;
 }
 
 export interface MoveResult {
@@ -40,7 +224,41 @@ export interface MoveResult {
   error?: string;
 }
 
+/**
+ * What the socket handshake stores on `socket.data`
+ */
+export interface SocketData {
+  user: AuthenticatedUser;
+  protocolVersion: number;
+  ip: string;
+}
+
+/**
+ * A client as seen by the game event handlers: either a socket connected to
+ * this instance, or a stand-in for a socket on another instance whose event
+ * was forwarded to the instance that owns the game
+ */
+export interface ClientConnection {
+  id: string;
+  data: { user: AuthenticatedUser };
+  emit<E extends ServerEvent>(event: E, ...args: Parameters<ServerListeners[E]>): void;
+  join(room: string): void;
+  leave(room: string): void;
+}
+
+export type ClusterMessage =
+  | ({
+      type: 'game_event';
+      from: string;
+      socketId: string;
+      user: AuthenticatedUser;
+      requestId?: string; // set when the client is waiting for an acknowledgement
+    } & RoutedGameEvent)
+  | { type: 'game_event_reply'; from: string; requestId: string; response: AckResponse }
+  | { type: 'connection_lost'; from: string; socketId: string };
+
 export interface AnalyticsEvent {
+  eventId: string; // unique per event, so redelivered messages are counted once
   eventType: 'game_started' | 'game_ended' | 'move_made' | 'player_disconnected' | 'player_reconnected';
   gameId: string;
   timestamp: Date;
@@ -51,6 +269,8 @@ export interface AnalyticsEvent {
     duration?: number;
     isVsBot?: boolean;
     movePosition?: Position;
+    ply?: number;
+    variant?: string;
     [key: string]: any;
   };
 }
@@ -61,4 +281,6 @@ export interface LeaderboardEntry {
   losses: number;
   draws: number;
   winRate: number;
+  rating: number;
+  ratingDeviation: number;
 }
\ No newline at end of file
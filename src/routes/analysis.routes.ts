@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { analysisController } from '../controller/analysis.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/ratelimit.middleware';
+import { config } from '../config/env';
+
+const router = Router();
+
+router.post(
+  '/',
+  requireAuth,
+  rateLimit('analysis', config.rateLimit.rest.analysis, 'user'),
+  (req, res) => analysisController.analyze(req, res)
+);
+
+export default router;
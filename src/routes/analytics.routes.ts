@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { analyticsController } from '../controller/analytics.controller';
+
+const router = Router();
+
+router.get('/games-per-day', (req, res) => analyticsController.getGamesPerDay(req, res));
+router.get('/games-per-hour', (req, res) => analyticsController.getGamesPerHour(req, res));
+router.get('/duration', (req, res) => analyticsController.getAverageDuration(req, res));
+router.get('/bot-share', (req, res) => analyticsController.getBotShare(req, res));
+router.get('/disconnects', (req, res) => analyticsController.getDisconnectRates(req, res));
+router.get('/openings', (req, res) => analyticsController.getOpenings(req, res));
+
+export default router;
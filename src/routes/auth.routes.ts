@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authController } from '../controller/auth.controller';
+import { rateLimit } from '../middleware/ratelimit.middleware';
+import { config } from '../config/env';
+
+const router = Router();
+const limitAuth = rateLimit('auth', config.rateLimit.rest.auth);
+
+router.post('/register', limitAuth, (req, res) => authController.register(req, res));
+router.post('/login', limitAuth, (req, res) => authController.login(req, res));
+router.post('/guest', limitAuth, (req, res) => authController.guest(req, res));
+
+export default router;
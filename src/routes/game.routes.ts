@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { gameController } from '../controller/game.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/ratelimit.middleware';
+import { config } from '../config/env';
+
+const router = Router();
+
+router.get('/live', (req, res) => gameController.getLiveGames(req, res));
+router.post(
+  '/import',
+  requireAuth,
+  rateLimit('import', config.rateLimit.rest.gameImport, 'user'),
+  (req, res) => gameController.importGame(req, res)
+);
+router.get('/:id/replay', (req, res) => gameController.getReplay(req, res));
+router.get('/:id/annotations', (req, res) => gameController.getAnnotations(req, res));
+router.get('/:id/notation', (req, res) => gameController.getNotation(req, res));
+
+export default router;
@@ -1,9 +1,16 @@
 import { Router } from 'express';
 import { leaderboardController } from '../controller/leardership.contoller';
+import { requireAuth } from '../middleware/auth.middleware';
 
 const router = Router();
 
 router.get('/', (req, res) => leaderboardController.getLeaderboard(req, res));
+router.get('/me', requireAuth, (req, res) => leaderboardController.getMyRank(req, res));
+router.get('/bots', (req, res) => leaderboardController.getBots(req, res));
+router.get('/seasons', (req, res) => leaderboardController.getSeasons(req, res));
 router.get('/player/:username', (req, res) => leaderboardController.getPlayerStats(req, res));
+router.get('/player/:username/rating-history', (req, res) =>
+  leaderboardController.getRatingHistory(req, res)
+);
 
 export default router;
\ No newline at end of file
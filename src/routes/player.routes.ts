@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { playerController } from '../controller/player.controller';
+
+const router = Router();
+
+router.get('/:username/games', (req, res) => playerController.getGames(req, res));
+
+export default router;
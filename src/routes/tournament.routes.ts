@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { tournamentController } from '../controller/tournament.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.get('/', (req, res) => tournamentController.list(req, res));
+router.post('/', requireAuth, (req, res) => tournamentController.create(req, res));
+router.get('/:id', (req, res) => tournamentController.get(req, res));
+router.post('/:id/register', requireAuth, (req, res) => tournamentController.register(req, res));
+router.post('/:id/start', requireAuth, (req, res) => tournamentController.start(req, res));
+router.get('/:id/bracket', (req, res) => tournamentController.getBracket(req, res));
+router.get('/:id/standings', (req, res) => tournamentController.getStandings(req, res));
+
+export default router;
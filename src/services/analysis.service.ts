@@ -0,0 +1,139 @@
+import { AnalysisResult, CellValue, ColumnAnalysis, GameVariant, PlayerSide } from '../models/types';
+import { searchService } from './search.service';
+import { config } from '../config/env';
+import {
+  canPlay,
+  emptyPosition,
+  fromBoard,
+  getRules,
+  isWinningMove,
+  play,
+  toBoard,
+  winner,
+} from '../engine/bitboard';
+
+const CELL_VALUES: CellValue[] = ['empty', 'player1', 'player2'];
+
+/**
+ * Validates positions submitted for analysis and scores them with the bot
+ * engine on the search worker pool
+ */
+class AnalysisService {
+  /**
+   * Analyses a board given row by row, top row first, as in GameState
+   */
+  async analyzeBoard(board: unknown, variant: GameVariant): Promise<AnalysisResult> {
+    if (
+      !Array.isArray(board) ||
+      board.length !== variant.rows ||
+      !board.every(
+        (row) =>
+          Array.isArray(row) &&
+          row.length === variant.cols &&
+          row.every((cell) => CELL_VALUES.includes(cell))
+      )
+    ) {
+      return { success: false, error: `Board must be ${variant.rows}x${variant.cols} cells` };
+    }
+
+    const cells = board as CellValue[][];
+    let player1 = 0;
+    let player2 = 0;
+
+    for (let col = 0; col < variant.cols; col++) {
+      let emptyFound = false;
+      for (let row = variant.rows - 1; row >= 0; row--) {
+        const cell = cells[row][col];
+        if (cell === 'empty') {
+          emptyFound = true;
+        } else if (emptyFound) {
+          return { success: false, error: `Floating piece in column ${col}` };
+        } else if (cell === 'player1') {
+          player1++;
+        } else {
+          player2++;
+        }
+      }
+    }
+
+    // player1 always moves first, so it has the same number of pieces as
+    // player2 or one more
+    if (player1 - player2 !== 0 && player1 - player2 !== 1) {
+      return { success: false, error: 'Piece counts are not reachable' };
+    }
+
+    const position = fromBoard(cells, variant.connect);
+    if (winner(position)) {
+      return { success: false, error: 'Game is already over' };
+    }
+
+    return this.analyzePosition(cells, position.toMove, variant);
+  }
+
+  /**
+   * Replays a sequence of 0-based columns from the empty board and analyses
+   * the resulting position
+   */
+  async analyzeMoves(moves: unknown, variant: GameVariant): Promise<AnalysisResult> {
+    if (!Array.isArray(moves)) {
+      return { success: false, error: 'Moves must be a list of columns' };
+    }
+
+    let position = emptyPosition(getRules(variant));
+
+    for (let ply = 0; ply < moves.length; ply++) {
+      const col = moves[ply];
+      if (!Number.isInteger(col) || col < 0 || col >= variant.cols) {
+        return { success: false, error: `Invalid column at move ${ply + 1}` };
+      }
+      if (!canPlay(position, col)) {
+        return { success: false, error: `Column ${col} is full at move ${ply + 1}` };
+      }
+
+      if (isWinningMove(position, col)) {
+        return {
+          success: false,
+          error:
+            ply === moves.length - 1
+              ? 'Game is already over'
+              : `Move ${ply + 2} is played after the game ended`,
+        };
+      }
+      position = play(position, col);
+    }
+
+    return this.analyzePosition(toBoard(position), position.toMove, variant);
+  }
+
+  /**
+   * Scores a position already known to be legal, such as a live game's.
+   * Priority searches are queued ahead of others and never refused as busy.
+   */
+  async analyzePosition(
+    board: CellValue[][],
+    toMove: PlayerSide,
+    variant: GameVariant,
+    priority = false
+  ): Promise<AnalysisResult> {
+    if (board[0].every((cell) => cell !== 'empty')) {
+      return { success: false, error: 'Game is already over' };
+    }
+
+    const columns: ColumnAnalysis[] | null = await searchService.analyzeColumns(
+      board,
+      toMove,
+      variant.connect,
+      config.analysis.timeBudgetMs,
+      priority
+    );
+    if (!columns) {
+      return { success: false, busy: true, error: 'Analysis is busy, try again shortly' };
+    }
+
+    const best = columns.reduce((top, column) => (column.score > top.score ? column : top));
+
+    return { success: true, analysis: { toMove, bestColumn: best.column, columns } };
+  }
+}
+
+export const analysisService = new AnalysisService();
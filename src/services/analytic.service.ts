@@ -1,10 +1,12 @@
+import { randomUUID } from 'crypto';
 import { getProducer } from '../config/kafka';
-import { AnalyticsEvent } from '../models/types';
+import { AnalyticsEvent, GameResult } from '../models/types';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
 
 class AnalyticsService {
-  async sendEvent(event: AnalyticsEvent): Promise<void> {
+  async sendEvent(details: Omit<AnalyticsEvent, 'eventId'>): Promise<void> {
+    const event: AnalyticsEvent = { eventId: randomUUID(), ...details };
     try {
       const producer = await getProducer();
       await producer.send({
@@ -26,13 +28,14 @@ class AnalyticsService {
     gameId: string,
     player1: string,
     player2: string,
-    isVsBot: boolean
+    isVsBot: boolean,
+    botDifficulty?: string
   ): Promise<void> {
     await this.sendEvent({
       eventType: 'game_started',
       gameId,
       timestamp: new Date(),
-      data: { player1, player2, isVsBot },
+      data: { player1, player2, isVsBot, botDifficulty },
     });
   }
 
@@ -40,26 +43,29 @@ class AnalyticsService {
     gameId: string,
     winner: string | undefined,
     duration: number,
-    isVsBot: boolean
+    isVsBot: boolean,
+    reason?: GameResult
   ): Promise<void> {
     await this.sendEvent({
       eventType: 'game_ended',
       gameId,
       timestamp: new Date(),
-      data: { winner, duration, isVsBot },
+      data: { winner, duration, isVsBot, reason },
     });
   }
 
   async moveMade(
     gameId: string,
     playerId: string,
-    position: { row: number; col: number }
+    position: { row: number; col: number },
+    ply: number,
+    variant: string
   ): Promise<void> {
     await this.sendEvent({
       eventType: 'move_made',
       gameId,
       timestamp: new Date(),
-      data: { playerId, movePosition: position },
+      data: { playerId, movePosition: position, ply, variant },
     });
   }
 
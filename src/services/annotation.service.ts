@@ -0,0 +1,181 @@
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+import {
+  ColumnAnalysis,
+  MoveAnnotation,
+  MoveClassification,
+  PlayerSide,
+} from '../models/types';
+import { searchService } from './search.service';
+import { historyService } from './history.service';
+import { logger } from '../utils/logger';
+
+export interface AnnotationReport {
+  gameId: string;
+  moves: MoveAnnotation[];
+  accuracy: Record<PlayerSide, number | null>;
+  annotatedAt: Date;
+}
+
+/**
+ * Reviews finished games move by move against the engine. Games are
+ * processed one at a time in the background, with the searches running on
+ * the search worker pool so live games are not held up by them.
+ */
+class AnnotationService {
+  private queue: string[] = [];
+  private queued: Set<string> = new Set();
+  private running = false;
+
+  /**
+   * Queues a finished game for annotation; games already waiting are not
+   * queued twice
+   */
+  scheduleGame(gameId: string): void {
+    if (this.queued.has(gameId)) return;
+
+    this.queued.add(gameId);
+    this.queue.push(gameId);
+    if (!this.running) {
+      this.running = true;
+      setImmediate(() => this.processQueue());
+    }
+  }
+
+  /**
+   * Returns the stored report, or null while the game has not been
+   * annotated. Games finished before a restart are queued on first request.
+   */
+  async getReport(gameId: string): Promise<AnnotationReport | null> {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      select: {
+        id: true,
+        annotations: true,
+        player1Accuracy: true,
+        player2Accuracy: true,
+        annotatedAt: true,
+      },
+    });
+    if (!game) return null;
+
+    // Both are written together; a row missing either is annotated afresh
+    if (!game.annotatedAt || game.annotations === null) {
+      this.scheduleGame(gameId);
+      return null;
+    }
+
+    return {
+      gameId: game.id,
+      moves: JSON.parse(game.annotations) as MoveAnnotation[],
+      accuracy: { player1: game.player1Accuracy, player2: game.player2Accuracy },
+      annotatedAt: game.annotatedAt,
+    };
+  }
+
+  private async processQueue(): Promise<void> {
+    while (this.queue.length > 0) {
+      const gameId = this.queue.shift()!;
+      try {
+        await this.annotateGame(gameId);
+      } catch (error) {
+        logger.error(`Failed to annotate game ${gameId}:`, error);
+      } finally {
+        this.queued.delete(gameId);
+      }
+    }
+    this.running = false;
+  }
+
+  private async annotateGame(gameId: string): Promise<void> {
+    const replay = await historyService.getReplay(gameId);
+    if (!replay) return;
+
+    const moves: MoveAnnotation[] = [];
+    for (const move of replay.moves) {
+      const side: PlayerSide = move.ply % 2 === 1 ? 'player1' : 'player2';
+      // Queued as a priority search so a busy pool delays the review
+      // rather than dropping it
+      const columns = (await searchService.analyzeColumns(
+        replay.snapshots[move.ply - 1],
+        side,
+        replay.connect,
+        config.annotation.timeBudgetMs,
+        true
+      ))!;
+      moves.push(this.annotateMove(move.ply, move.playerId, move.column, columns));
+    }
+
+    const accuracy = {
+      player1: this.accuracy(moves.filter((move) => move.ply % 2 === 1)),
+      player2: this.accuracy(moves.filter((move) => move.ply % 2 === 0)),
+    };
+
+    await prisma.game.update({
+      where: { id: gameId },
+      data: {
+        annotations: JSON.stringify(moves),
+        player1Accuracy: accuracy.player1,
+        player2Accuracy: accuracy.player2,
+        annotatedAt: new Date(),
+      },
+    });
+
+    logger.info(`Annotated ${moves.length} moves of game ${gameId}`);
+  }
+
+  private annotateMove(
+    ply: number,
+    playerId: string,
+    column: number,
+    columns: ColumnAnalysis[]
+  ): MoveAnnotation {
+    const best = columns.reduce((top, candidate) => (candidate.score > top.score ? candidate : top));
+    const played = columns.find((candidate) => candidate.column === column) ?? best;
+    const expectedLoss = Math.max(0, this.expectedScore(best) - this.expectedScore(played));
+
+    let classification: MoveClassification;
+    if (played.score >= best.score) {
+      classification = 'best';
+    } else if (expectedLoss <= config.annotation.maxLoss.good) {
+      classification = 'good';
+    } else if (expectedLoss <= config.annotation.maxLoss.inaccuracy) {
+      classification = 'inaccuracy';
+    } else if (expectedLoss <= config.annotation.maxLoss.mistake) {
+      classification = 'mistake';
+    } else {
+      classification = 'blunder';
+    }
+
+    return {
+      ply,
+      playerId,
+      column,
+      classification,
+      bestColumn: best.column,
+      outcome: played.outcome,
+      bestOutcome: best.outcome,
+      expectedLoss: Math.round(expectedLoss * 1000) / 1000,
+    };
+  }
+
+  private expectedScore(column: ColumnAnalysis): number {
+    if (column.outcome === 'win') return 1;
+    if (column.outcome === 'loss') return 0;
+    if (column.outcome === 'draw') return 0.5;
+    return 1 / (1 + Math.exp(-column.score / config.annotation.scoreScale));
+  }
+
+  /**
+   * 100 for a game of best moves, minus the average expected-score loss
+   * per move in percentage points
+   */
+  private accuracy(moves: MoveAnnotation[]): number | null {
+    if (moves.length === 0) return null;
+
+    const kept = moves.reduce((sum, move) => sum + (1 - move.expectedLoss), 0);
+    return Math.round((kept / moves.length) * 1000) / 10;
+  }
+}
+
+export const annotationService = new AnnotationService();
@@ -0,0 +1,134 @@
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { randomInt } from 'crypto';
+import { prisma } from '../config/database';
+import { AuthenticatedUser, AuthResult } from '../models/types';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+interface TokenPayload {
+  sub: string;
+  username: string;
+  guest: boolean;
+}
+
+class AuthService {
+  async register(username: string, password: string): Promise<AuthResult> {
+    const validationError = this.validateCredentials(username, password);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const name = username.trim();
+    const existing = await prisma.player.findUnique({ where: { username: name } });
+
+    // Accounts created before authentication existed have no password yet and
+    // can be claimed once, keeping their stats; bot accounts never can
+    if (existing && (existing.passwordHash || existing.isGuest || existing.isBot)) {
+      return { success: false, error: 'Username already taken' };
+    }
+
+    // Names of new accounts must follow the username rules; claimed legacy
+    // accounts keep the name they already have
+    if (!existing) {
+      const usernameError = this.validateUsername(name);
+      if (usernameError) {
+        return { success: false, error: usernameError };
+      }
+    }
+
+    const passwordHash = await bcrypt.hash(password, config.auth.bcryptRounds);
+    const player = existing
+      ? await prisma.player.update({ where: { id: existing.id }, data: { passwordHash } })
+      : await prisma.player.create({ data: { username: name, passwordHash } });
+
+    logger.info(`Player registered: ${player.username}`);
+    return this.issueToken({ id: player.id, username: player.username, isGuest: false });
+  }
+
+  async login(username: string, password: string): Promise<AuthResult> {
+    if (!username || !password) {
+      return { success: false, error: 'Username and password are required' };
+    }
+
+    const player = await prisma.player.findUnique({ where: { username: username.trim() } });
+    const valid =
+      player?.passwordHash && (await bcrypt.compare(password, player.passwordHash));
+
+    if (!valid) {
+      return { success: false, error: 'Invalid username or password' };
+    }
+
+    return this.issueToken({ id: player.id, username: player.username, isGuest: false });
+  }
+
+  /**
+   * Creates an anonymous player with a generated name. The returned token is
+   * the only way back into the account.
+   */
+  async createGuest(): Promise<AuthResult> {
+    let username: string;
+    do {
+      username = `Guest-${randomInt(100000, 1000000)}`;
+    } while (await prisma.player.findUnique({ where: { username } }));
+
+    const player = await prisma.player.create({ data: { username, isGuest: true } });
+
+    logger.info(`Guest player created: ${player.username}`);
+    return this.issueToken({ id: player.id, username: player.username, isGuest: true });
+  }
+
+  verifyToken(token: string): AuthenticatedUser | null {
+    try {
+      const payload = jwt.verify(token, config.auth.jwtSecret) as TokenPayload;
+      return { id: payload.sub, username: payload.username, isGuest: payload.guest };
+    } catch {
+      return null;
+    }
+  }
+
+  private issueToken(user: AuthenticatedUser): AuthResult {
+    const payload: TokenPayload = {
+      sub: user.id,
+      username: user.username,
+      guest: user.isGuest,
+    };
+    const token = jwt.sign(payload, config.auth.jwtSecret, {
+      expiresIn: config.auth.tokenTtl as SignOptions['expiresIn'],
+    });
+    return { success: true, token, user };
+  }
+
+  private validateCredentials(username: string, password: string): string | null {
+    if (typeof username !== 'string' || username.trim().length === 0) {
+      return 'Username is required';
+    }
+    if (typeof password !== 'string' || password.length < config.auth.passwordMinLength) {
+      return `Password must be at least ${config.auth.passwordMinLength} characters`;
+    }
+    return null;
+  }
+
+  private validateUsername(name: string): string | null {
+    const { usernameMinLength, usernameMaxLength, usernamePattern } = config.auth;
+    if (name.length < usernameMinLength || name.length > usernameMaxLength) {
+      return `Username must be ${usernameMinLength} to ${usernameMaxLength} characters`;
+    }
+    if (!usernamePattern.test(name)) {
+      return 'Username may only contain letters, digits, underscores and hyphens';
+    }
+
+    const lower = name.toLowerCase();
+    const botNames = Object.values(config.bot.difficulties).map((bot) => bot.username.toLowerCase());
+    if (
+      config.auth.reservedUsernames.includes(lower) ||
+      botNames.includes(lower) ||
+      config.auth.reservedUsernamePrefixes.some((prefix) => lower.startsWith(prefix))
+    ) {
+      return 'Username is reserved';
+    }
+    return null;
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { CellValue } from '../models/types';
+import { emptyPosition, getRules, play, toBoard } from '../engine/bitboard';
+import { botService } from './bot.service';
+
+const STANDARD = { rows: 6, cols: 7, connect: 4 };
+const TIME_BUDGET_MS = 700;
+
+function boardAfter(moves: number[]): CellValue[][] {
+  return toBoard(moves.reduce(play, emptyPosition(getRules(STANDARD))));
+}
+
+// player1 has the bottom row's columns 0 to 2 and wins at once in column 3
+const IMMEDIATE_WIN = boardAfter([0, 0, 1, 1, 2, 5]);
+// player2 to move must stop player1's bottom row in column 3
+const MUST_BLOCK = boardAfter([0, 6, 1, 6, 2]);
+// player1 makes an open three on the bottom row in column 1 or 4 and wins
+// on the move after next
+const OPEN_THREE = boardAfter([2, 2, 3, 3]);
+// player1 already has an open three, so player2 loses whatever it plays
+const LOST = boardAfter([1, 1, 2, 2, 3]);
+// player1 to move with columns 1 and 3 open: 3 wins at once, 1 draws
+const ENDGAME = boardAfter([
+  6, 4, 0, 1, 5, 5, 5, 5, 2, 0, 1, 4, 4, 3, 4, 1, 2, 0, 6, 6, 0, 2, 2, 5, 6, 0, 1, 0, 5, 2, 3, 6,
+  2, 6, 4, 4, 3, 3,
+]);
+
+describe('getBestMove', () => {
+  it('takes an immediate win at every difficulty without randomness', () => {
+    for (const difficulty of ['medium', 'hard', 'perfect'] as const) {
+      expect(botService.getBestMove(IMMEDIATE_WIN, 'player1', difficulty)).toBe(3);
+    }
+  });
+
+  it('blocks the opponent from winning', () => {
+    expect(botService.getBestMove(MUST_BLOCK, 'player2', 'medium')).toBe(3);
+    expect(botService.getBestMove(MUST_BLOCK, 'player2', 'hard')).toBe(3);
+  });
+
+  it('plays into a forced win', () => {
+    expect([1, 4]).toContain(botService.getBestMove(OPEN_THREE, 'player1', 'perfect'));
+  });
+
+  it('prefers the winning column to the drawing one', () => {
+    expect(botService.getBestMove(ENDGAME, 'player1', 'perfect')).toBe(3);
+  });
+});
+
+describe('evaluatePosition', () => {
+  it('scores forced wins and losses for the side to move', () => {
+    expect(botService.evaluatePosition(OPEN_THREE, 'player1', 'hard')).toBeGreaterThan(900000);
+    expect(botService.evaluatePosition(LOST, 'player2', 'hard')).toBeLessThan(-900000);
+  });
+});
+
+describe('analyzeColumns', () => {
+  it('solves an immediate win', () => {
+    const columns = botService.analyzeColumns(IMMEDIATE_WIN, 'player1', 4, TIME_BUDGET_MS);
+
+    expect(columns.map((column) => column.column)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(columns.find((column) => column.column === 3)).toMatchObject({
+      outcome: 'win',
+      distance: 1,
+    });
+  });
+
+  it('solves a win in three plies', () => {
+    const columns = botService.analyzeColumns(OPEN_THREE, 'player1', 4, TIME_BUDGET_MS);
+
+    for (const col of [1, 4]) {
+      expect(columns.find((column) => column.column === col)).toMatchObject({
+        outcome: 'win',
+        distance: 3,
+      });
+    }
+  });
+
+  it('solves every column of a lost position as a loss', () => {
+    const columns = botService.analyzeColumns(LOST, 'player2', 4, TIME_BUDGET_MS);
+
+    expect(columns).toHaveLength(7);
+    for (const column of columns) {
+      expect(column).toMatchObject({ outcome: 'loss', distance: 2 });
+    }
+  });
+
+  it('finds that every move but the block loses', () => {
+    const columns = botService.analyzeColumns(MUST_BLOCK, 'player2', 4, TIME_BUDGET_MS);
+
+    for (const column of columns) {
+      if (column.column === 3) {
+        expect(column.outcome).not.toBe('loss');
+      } else {
+        expect(column).toMatchObject({ outcome: 'loss', distance: 2 });
+      }
+    }
+  });
+
+  it('solves wins and draws to the end of the game', () => {
+    const columns = botService.analyzeColumns(ENDGAME, 'player1', 4, TIME_BUDGET_MS);
+
+    expect(columns).toEqual([
+      { column: 1, outcome: 'draw', distance: 4, score: 0 },
+      { column: 3, outcome: 'win', distance: 1, score: expect.any(Number) },
+    ]);
+  });
+});
@@ -1,186 +1,381 @@
-import { CellValue } from '../models/types';
+import { BotDifficulty, CellValue, ColumnAnalysis } from '../models/types';
+import {
+  Position,
+  fromBoard,
+  isFull,
+  isWinningMove,
+  legalMoves,
+  play,
+} from '../engine/bitboard';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
 
+const WIN_SCORE = 1000000;
+
+type TableFlag = 'exact' | 'lower' | 'upper';
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  flag: TableFlag;
+  bestMove: number;
+}
+
+interface SearchContext {
+  columnOrder: number[];
+  deadline: number;
+  nodes: number;
+  aborted: boolean;
+  table: Map<number, TableEntry>;
+}
+
 class BotService {
+  // Move orders and evaluation windows are built once per board size
+  private columnOrders: Map<number, number[]> = new Map();
+  private windows: Map<string, Int32Array> = new Map();
+
   /**
-   * Determines the best move for the bot using strategic analysis
+   * Determines the best move for the bot with a negamax alpha-beta search,
+   * deepened iteratively until the difficulty's depth or time budget runs out
    */
-  getBestMove(board: CellValue[][], botPiece: 'player1' | 'player2'): number {
-    const opponentPiece: CellValue = botPiece === 'player1' ? 'player2' : 'player1';
-
-    // Priority 1: Win if possible
-    for (let col = 0; col < config.game.cols; col++) {
-      if (this.canPlacePiece(board, col)) {
-        const row = this.getLowestEmptyRow(board, col);
-        if (this.wouldWin(board, row, col, botPiece)) {
-          logger.debug(`Bot choosing winning move: column ${col}`);
-          return col;
-        }
-      }
-    }
+  getBestMove(
+    board: CellValue[][],
+    botPiece: 'player1' | 'player2',
+    difficulty: BotDifficulty = config.bot.defaultDifficulty,
+    connect: number = 4
+  ): number {
+    const settings = config.bot.difficulties[difficulty];
+    const position = fromBoard(board, connect, botPiece);
+    const ctx = this.createContext(position, settings.timeBudgetMs);
+    const validMoves = legalMoves(position, ctx.columnOrder);
 
-    // Priority 2: Block opponent's winning move
-    for (let col = 0; col < config.game.cols; col++) {
-      if (this.canPlacePiece(board, col)) {
-        const row = this.getLowestEmptyRow(board, col);
-        if (this.wouldWin(board, row, col, opponentPiece)) {
-          logger.debug(`Bot blocking opponent at column ${col}`);
-          return col;
-        }
-      }
+    if (validMoves.length === 1) {
+      return validMoves[0];
     }
 
-    // Priority 3: Create opportunities (look for moves that create 3 in a row)
-    for (let col = 0; col < config.game.cols; col++) {
-      if (this.canPlacePiece(board, col)) {
-        const row = this.getLowestEmptyRow(board, col);
-        if (this.createsThreeInRow(board, row, col, botPiece)) {
-          logger.debug(`Bot creating opportunity at column ${col}`);
-          return col;
-        }
-      }
+    if (settings.randomness > 0 && Math.random() < settings.randomness) {
+      const col = validMoves[Math.floor(Math.random() * validMoves.length)];
+      logger.debug(`Bot (${difficulty}) choosing random column ${col}`);
+      return col;
     }
 
-    // Priority 4: Play center column if available (strategic advantage)
-    const centerCol = Math.floor(config.game.cols / 2);
-    if (this.canPlacePiece(board, centerCol)) {
-      logger.debug(`Bot choosing center column ${centerCol}`);
-      return centerCol;
+    const { move, score, depth } = this.search(ctx, position, settings.maxDepth, validMoves[0]);
+
+    logger.debug(
+      `Bot (${difficulty}) choosing column ${move} at depth ${depth} ` +
+        `(score ${score}, ${ctx.nodes} nodes)`
+    );
+    return move;
+  }
+
+  /**
+   * Scores the position for the side to move with the same search the bot
+   * plays with: positive when that side is better, close to WIN_SCORE when
+   * it has a forced win
+   */
+  evaluatePosition(
+    board: CellValue[][],
+    toMove: 'player1' | 'player2',
+    difficulty: BotDifficulty = config.bot.defaultDifficulty,
+    connect: number = 4
+  ): number {
+    const settings = config.bot.difficulties[difficulty];
+    const position = fromBoard(board, connect, toMove);
+    const ctx = this.createContext(position, settings.timeBudgetMs);
+    const validMoves = legalMoves(position, ctx.columnOrder);
+    if (validMoves.length === 0) {
+      return 0;
     }
 
-    // Priority 5: Choose a column near the center
-    const validMoves = this.getValidMoves(board);
-    const sortedMoves = validMoves.sort((a, b) => {
-      return Math.abs(a - centerCol) - Math.abs(b - centerCol);
+    return this.search(ctx, position, settings.maxDepth, validMoves[0]).score;
+  }
+
+  /**
+   * Scores every legal column for the side to move by searching the reply
+   * position without a depth limit. Columns whose search finishes within
+   * their share of the time budget are reported as solved.
+   */
+  analyzeColumns(
+    board: CellValue[][],
+    toMove: 'player1' | 'player2',
+    connect: number = 4,
+    timeBudgetMs: number = config.analysis.timeBudgetMs
+  ): ColumnAnalysis[] {
+    const root = fromBoard(board, connect, toMove);
+    const columns = legalMoves(root);
+    const budget = Math.floor(timeBudgetMs / Math.max(columns.length, 1));
+
+    return columns.map((col) => {
+      if (isWinningMove(root, col)) {
+        return { column: col, outcome: 'win', distance: 1, score: WIN_SCORE - 1 };
+      }
+
+      const position = play(root, col);
+      const { rows, cols } = position.rules;
+      const emptyCells = rows * cols - position.moveCount;
+      if (emptyCells === 0) {
+        return { column: col, outcome: 'draw', distance: 1, score: 0 };
+      }
+
+      const ctx = this.createContext(position, budget);
+      const replies = legalMoves(position, ctx.columnOrder);
+      const reply = this.search(ctx, position, Infinity, replies[0]);
+      const score = -reply.score;
+
+      // Scores near WIN_SCORE encode how many plies after the reply
+      // position the game is decided
+      if (Math.abs(score) >= WIN_SCORE - emptyCells) {
+        const distance = WIN_SCORE - Math.abs(score) + 1;
+        return { column: col, outcome: score > 0 ? 'win' : 'loss', distance, score };
+      }
+      if (reply.depth >= emptyCells) {
+        return { column: col, outcome: 'draw', distance: emptyCells + 1, score: 0 };
+      }
+      return { column: col, outcome: null, distance: null, score };
     });
+  }
+
+  /**
+   * Deepens the search one ply at a time until the depth limit, the time
+   * budget or a forced result is reached
+   */
+  private search(
+    ctx: SearchContext,
+    position: Position,
+    depthLimit: number,
+    firstMove: number
+  ): { move: number; score: number; depth: number } {
+    const { rows, cols } = position.rules;
+    const emptyCells = rows * cols - position.moveCount;
+    const maxDepth = Math.min(depthLimit, emptyCells);
+
+    let bestMove = firstMove;
+    let bestScore = 0;
+    let completedDepth = 0;
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const result = this.searchRoot(ctx, position, depth, bestMove);
+      if (ctx.aborted) break;
 
-    logger.debug(`Bot choosing strategic column ${sortedMoves[0]}`);
-    return sortedMoves[0];
+      bestMove = result.move;
+      bestScore = result.score;
+      completedDepth = depth;
+
+      // A forced win or loss has been found; searching deeper cannot change it
+      if (Math.abs(bestScore) >= WIN_SCORE - emptyCells) break;
+    }
+
+    return { move: bestMove, score: bestScore, depth: completedDepth };
   }
 
-  private canPlacePiece(board: CellValue[][], col: number): boolean {
-    return board[0][col] === 'empty';
+  private createContext(position: Position, timeBudgetMs: number): SearchContext {
+    return {
+      columnOrder: this.getColumnOrder(position.rules.cols),
+      deadline: Date.now() + timeBudgetMs,
+      nodes: 0,
+      aborted: false,
+      table: new Map(),
+    };
   }
 
-  private getLowestEmptyRow(board: CellValue[][], col: number): number {
-    for (let row = config.game.rows - 1; row >= 0; row--) {
-      if (board[row][col] === 'empty') {
-        return row;
+  private searchRoot(
+    ctx: SearchContext,
+    position: Position,
+    depth: number,
+    previousBest: number
+  ): { move: number; score: number } {
+    let alpha = -Infinity;
+    const beta = Infinity;
+    let bestMove = previousBest;
+
+    for (const col of this.orderMoves(ctx, position, previousBest)) {
+      if (isWinningMove(position, col)) {
+        return { move: col, score: WIN_SCORE - 1 };
+      }
+
+      const score = -this.negamax(ctx, play(position, col), depth - 1, -beta, -alpha, 1);
+      if (ctx.aborted) break;
+
+      if (score > alpha) {
+        alpha = score;
+        bestMove = col;
       }
     }
-    return -1;
+
+    return { move: bestMove, score: alpha };
   }
 
-  private getValidMoves(board: CellValue[][]): number[] {
-    const moves: number[] = [];
-    for (let col = 0; col < config.game.cols; col++) {
-      if (this.canPlacePiece(board, col)) {
-        moves.push(col);
+  private negamax(
+    ctx: SearchContext,
+    position: Position,
+    depth: number,
+    alpha: number,
+    beta: number,
+    ply: number
+  ): number {
+    ctx.nodes++;
+    if ((ctx.nodes & 1023) === 0 && Date.now() > ctx.deadline) {
+      ctx.aborted = true;
+    }
+    if (ctx.aborted) return 0;
+
+    if (isFull(position)) {
+      return 0;
+    }
+
+    // Take an immediate win before searching anything else
+    for (const col of ctx.columnOrder) {
+      if (isWinningMove(position, col)) {
+        return WIN_SCORE - (ply + 1);
+      }
+    }
+
+    if (depth === 0) {
+      return this.evaluate(position);
+    }
+
+    const alphaOrig = alpha;
+    const entry = ctx.table.get(position.hash);
+    if (entry && entry.depth >= depth) {
+      if (entry.flag === 'exact') return entry.score;
+      if (entry.flag === 'lower') alpha = Math.max(alpha, entry.score);
+      if (entry.flag === 'upper') beta = Math.min(beta, entry.score);
+      if (alpha >= beta) return entry.score;
+    }
+
+    let bestScore = -Infinity;
+    let bestMove = -1;
+
+    for (const col of this.orderMoves(ctx, position, entry ? entry.bestMove : -1)) {
+      const score = -this.negamax(ctx, play(position, col), depth - 1, -beta, -alpha, ply + 1);
+      if (ctx.aborted) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = col;
       }
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+
+    if (ctx.table.size < config.bot.maxTableEntries) {
+      const flag: TableFlag =
+        bestScore <= alphaOrig ? 'upper' : bestScore >= beta ? 'lower' : 'exact';
+      ctx.table.set(position.hash, { depth, score: bestScore, flag, bestMove });
+    }
+
+    return bestScore;
+  }
+
+  private orderMoves(ctx: SearchContext, position: Position, firstMove: number): number[] {
+    const moves = legalMoves(position, ctx.columnOrder);
+    const index = moves.indexOf(firstMove);
+    if (index > 0) {
+      moves.splice(index, 1);
+      moves.unshift(firstMove);
     }
     return moves;
   }
 
-  private wouldWin(
-    board: CellValue[][],
-    row: number,
-    col: number,
-    piece: CellValue
-  ): boolean {
-    // Temporarily place the piece
-    const originalValue = board[row][col];
-    board[row][col] = piece;
-
-    // Check if this creates a win
-    const isWin =
-      this.checkDirection(board, row, col, 0, 1, piece) || // horizontal
-      this.checkDirection(board, row, col, 1, 0, piece) || // vertical
-      this.checkDirection(board, row, col, 1, 1, piece) || // diagonal /
-      this.checkDirection(board, row, col, 1, -1, piece); // diagonal \
-
-    // Restore original value
-    board[row][col] = originalValue;
-
-    return isWin;
+  /**
+   * Static evaluation from the point of view of the side to move: scores
+   * every winning-length window of cells plus a bonus for holding the center
+   * column
+   */
+  private evaluate(position: Position): number {
+    const { rows, cols, connect } = position.rules;
+    const own = position.current;
+    const mask = position.mask;
+    const center = Math.floor(cols / 2);
+    let score = 0;
+
+    for (let bit = 0; bit < rows; bit++) {
+      if ((mask[center] >> bit) & 1) {
+        score += (own[center] >> bit) & 1 ? 3 : -3;
+      }
+    }
+
+    const windows = this.getWindows(position);
+    for (let w = 0; w < windows.length; w += connect * 2) {
+      let ownCount = 0;
+      let theirCount = 0;
+      for (let i = w; i < w + connect * 2; i += 2) {
+        const col = windows[i];
+        const bit = windows[i + 1];
+        if ((mask[col] >> bit) & 1) {
+          if ((own[col] >> bit) & 1) ownCount++;
+          else theirCount++;
+        }
+      }
+
+      score += this.scoreWindow(ownCount, theirCount, connect);
+    }
+
+    return score;
   }
 
-  private createsThreeInRow(
-    board: CellValue[][],
-    row: number,
-    col: number,
-    piece: CellValue
-  ): boolean {
-    // Temporarily place the piece
-    const originalValue = board[row][col];
-    board[row][col] = piece;
-
-    // Check if this creates 3 in a row
-    const hasThree =
-      this.countInDirection(board, row, col, 0, 1, piece) >= 3 || // horizontal
-      this.countInDirection(board, row, col, 1, 0, piece) >= 3 || // vertical
-      this.countInDirection(board, row, col, 1, 1, piece) >= 3 || // diagonal /
-      this.countInDirection(board, row, col, 1, -1, piece) >= 3; // diagonal \
-
-    // Restore original value
-    board[row][col] = originalValue;
-
-    return hasThree;
+  /**
+   * Every line of `connect` cells on the board as flat (column, bit) pairs,
+   * built once per board size
+   */
+  private getWindows(position: Position): Int32Array {
+    const { rows, cols, connect } = position.rules;
+    const key = `${rows}x${cols}x${connect}`;
+    let windows = this.windows.get(key);
+    if (!windows) {
+      const cells: number[] = [];
+      // Column and bit steps: horizontal, vertical, rising and falling diagonals
+      const directions = [
+        [1, 0],
+        [0, 1],
+        [1, 1],
+        [1, -1],
+      ];
+
+      for (let col = 0; col < cols; col++) {
+        for (let bit = 0; bit < rows; bit++) {
+          for (const [deltaCol, deltaBit] of directions) {
+            const endCol = col + deltaCol * (connect - 1);
+            const endBit = bit + deltaBit * (connect - 1);
+            if (endCol >= cols || endBit < 0 || endBit >= rows) {
+              continue;
+            }
+
+            for (let i = 0; i < connect; i++) {
+              cells.push(col + deltaCol * i, bit + deltaBit * i);
+            }
+          }
+        }
+      }
+
+      windows = Int32Array.from(cells);
+      this.windows.set(key, windows);
+    }
+    return windows;
   }
 
-  private checkDirection(
-    board: CellValue[][],
-    row: number,
-    col: number,
-    deltaRow: number,
-    deltaCol: number,
-    piece: CellValue
-  ): boolean {
-    return this.countInDirection(board, row, col, deltaRow, deltaCol, piece) >= 4;
+  private scoreWindow(own: number, theirs: number, connect: number): number {
+    if (own > 0 && theirs > 0) return 0;
+    if (own === connect - 1) return 50;
+    if (own === connect - 2) return 10;
+    if (theirs === connect - 1) return -50;
+    if (theirs === connect - 2) return -10;
+    return 0;
   }
 
-  private countInDirection(
-    board: CellValue[][],
-    row: number,
-    col: number,
-    deltaRow: number,
-    deltaCol: number,
-    piece: CellValue
-  ): number {
-    let count = 1;
-
-    // Check positive direction
-    let r = row + deltaRow;
-    let c = col + deltaCol;
-    while (
-      r >= 0 &&
-      r < config.game.rows &&
-      c >= 0 &&
-      c < config.game.cols &&
-      board[r][c] === piece
-    ) {
-      count++;
-      r += deltaRow;
-      c += deltaCol;
-    }
-
-    // Check negative direction
-    r = row - deltaRow;
-    c = col - deltaCol;
-    while (
-      r >= 0 &&
-      r < config.game.rows &&
-      c >= 0 &&
-      c < config.game.cols &&
-      board[r][c] === piece
-    ) {
-      count++;
-      r -= deltaRow;
-      c -= deltaCol;
-    }
-
-    return count;
+  private getColumnOrder(cols: number): number[] {
+    let order = this.columnOrders.get(cols);
+    if (!order) {
+      // Center columns first: they take part in the most lines, so searching
+      // them first produces earlier alpha-beta cutoffs
+      const center = Math.floor(cols / 2);
+      order = Array.from({ length: cols }, (_, col) => col).sort(
+        (a, b) => Math.abs(a - center) - Math.abs(b - center)
+      );
+      this.columnOrders.set(cols, order);
+    }
+    return order;
   }
 }
 
-export const botService = new BotService();
\ No newline at end of file
+export const botService = new BotService();
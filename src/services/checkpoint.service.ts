@@ -0,0 +1,138 @@
+import { prisma } from '../config/database';
+import { GameState, MoveRecord } from '../models/types';
+import { logger } from '../utils/logger';
+
+// A move as stored in a checkpoint, its timestamp serialized by JSON
+type StoredMove = Omit<MoveRecord, 'timestamp'> & { timestamp: string };
+
+class CheckpointService {
+  // Last queued write per game, so checkpoints for one game land in order
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Queues a snapshot of the game for storage. The snapshot is taken
+   * immediately, so later mutations of the game do not leak into it.
+   */
+  saveGame(game: GameState): Promise<void> {
+    const state = this.serialize(game);
+    const data = {
+      state,
+      status: game.status,
+      disconnectDeadline: game.disconnectDeadline,
+    };
+
+    return this.enqueue(game.id, () =>
+      prisma.activeGame.upsert({
+        where: { id: game.id },
+        create: { id: game.id, ...data },
+        update: data,
+      })
+    );
+  }
+
+  removeGame(gameId: string): Promise<void> {
+    return this.enqueue(gameId, () =>
+      prisma.activeGame.deleteMany({ where: { id: gameId } })
+    );
+  }
+
+  /**
+   * Loads every stored game that was still in progress. Checkpoints of games
+   * that had already finished are discarded.
+   */
+  async loadGames(): Promise<GameState[]> {
+    const rows = await prisma.activeGame.findMany();
+    const games: GameState[] = [];
+
+    for (const row of rows) {
+      try {
+        const game = this.deserialize(row.state);
+        if (game.status === 'active' || game.status === 'waiting') {
+          games.push(game);
+        } else {
+          await this.removeGame(game.id);
+        }
+      } catch (error) {
+        logger.error(`Failed to restore game checkpoint ${row.id}:`, error);
+      }
+    }
+
+    return games;
+  }
+
+  /**
+   * Loads a single game that is still in progress, or null if it finished
+   * or was never checkpointed
+   */
+  async loadGame(gameId: string): Promise<GameState | null> {
+    const row = await prisma.activeGame.findUnique({ where: { id: gameId } });
+    if (!row) return null;
+
+    const game = this.deserialize(row.state);
+    return game.status === 'active' || game.status === 'waiting' ? game : null;
+  }
+
+  /**
+   * Reads the games currently being played on any instance, without
+   * touching the stored checkpoints
+   */
+  async listActiveGames(): Promise<GameState[]> {
+    const rows = await prisma.activeGame.findMany({ where: { status: 'active' } });
+    return rows.map((row: { state: string }) => this.deserialize(row.state));
+  }
+
+  private enqueue(gameId: string, write: () => Promise<unknown>): Promise<void> {
+    const previous = this.pendingWrites.get(gameId) || Promise.resolve();
+    const next = previous
+      .then(write)
+      .then(() => undefined)
+      .catch((error) => {
+        logger.error(`Failed to checkpoint game ${gameId}:`, error);
+      });
+
+    this.pendingWrites.set(gameId, next);
+    next.then(() => {
+      if (this.pendingWrites.get(gameId) === next) {
+        this.pendingWrites.delete(gameId);
+      }
+    });
+
+    return next;
+  }
+
+  private serialize(game: GameState): string {
+    const { disconnectTimeout, clockTimeout, ...state } = game;
+    return JSON.stringify(state);
+  }
+
+  private deserialize(state: string): GameState {
+    const parsed = JSON.parse(state);
+    const moves: StoredMove[] = parsed.moves ?? [];
+    return {
+      ...parsed,
+      createdAt: new Date(parsed.createdAt),
+      lastMoveAt: new Date(parsed.lastMoveAt),
+      moves: moves.map((move) => ({
+        ...move,
+        timestamp: new Date(move.timestamp),
+      })),
+      disconnectDeadline: parsed.disconnectDeadline
+        ? new Date(parsed.disconnectDeadline)
+        : null,
+      disconnectTimeout: null,
+      clock: {
+        ...parsed.clock,
+        turnStartedAt: parsed.clock.turnStartedAt
+          ? new Date(parsed.clock.turnStartedAt)
+          : null,
+      },
+      clockTimeout: null,
+      drawOffers: parsed.drawOffers ?? [],
+      pendingDrawOffer: parsed.pendingDrawOffer ?? null,
+      tournamentId: parsed.tournamentId ?? null,
+      hintsUsed: parsed.hintsUsed ?? {},
+    };
+  }
+}
+
+export const checkpointService = new CheckpointService();
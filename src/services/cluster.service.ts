@@ -0,0 +1,197 @@
+import { getStore } from '../config/store';
+import { config } from '../config/env';
+import { ClusterMessage } from '../models/types';
+import { logger } from '../utils/logger';
+
+const BROADCAST_CHANNEL = 'cluster:broadcast';
+const VIEWERS_KEY = 'game:viewers';
+
+type MessageListener = (message: ClusterMessage) => void;
+type OwnershipListener = (gameId: string) => void;
+
+/**
+ * Coordinates the server instances sharing one deployment. Every live game
+ * is owned by exactly one instance, which holds a renewable lease on it and
+ * is the only one allowed to change its state; other instances forward the
+ * game's events to the owner.
+ */
+class ClusterService {
+  readonly instanceId = config.cluster.instanceId;
+  private ownedGames: Set<string> = new Set();
+  private messageListeners: MessageListener[] = [];
+  private ownershipListeners: OwnershipListener[] = [];
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    const store = getStore();
+    const receive = (raw: string) => {
+      const message = JSON.parse(raw) as ClusterMessage;
+      if (message.from === this.instanceId) return;
+      for (const listener of this.messageListeners) {
+        listener(message);
+      }
+    };
+
+    await store.subscribe(this.channelFor(this.instanceId), receive);
+    await store.subscribe(BROADCAST_CHANNEL, receive);
+    await this.renewLeases();
+
+    this.heartbeat = setInterval(() => {
+      this.renewLeases().catch((error) => logger.error('Failed to renew leases:', error));
+    }, config.cluster.heartbeatInterval);
+
+    logger.info(`✅ Cluster instance ${this.instanceId} started`);
+  }
+
+  /**
+   * Hands back every lease so other instances can adopt the games right away
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    const store = getStore();
+    await Promise.all(
+      Array.from(this.ownedGames, (gameId) =>
+        store.compareAndDelete(this.ownerKey(gameId), this.instanceId)
+      )
+    );
+    await store.del(this.instanceKey(this.instanceId));
+    this.ownedGames.clear();
+  }
+
+  onMessage(listener: MessageListener): void {
+    this.messageListeners.push(listener);
+  }
+
+  /**
+   * Registers a callback for games whose lease was lost, e.g. after this
+   * instance stalled long enough for another one to adopt them
+   */
+  onOwnershipLost(listener: OwnershipListener): void {
+    this.ownershipListeners.push(listener);
+  }
+
+  /**
+   * Takes the lease on a game nobody owns. Returns false when another
+   * instance (or this one) already holds it.
+   */
+  async claimGame(gameId: string): Promise<boolean> {
+    const claimed = await getStore().set(this.ownerKey(gameId), this.instanceId, {
+      ttlMs: config.cluster.gameLeaseMs,
+      onlyIfAbsent: true,
+    });
+    if (claimed) {
+      this.ownedGames.add(gameId);
+    }
+    return claimed;
+  }
+
+  /**
+   * Takes the lease on a game this instance just created
+   */
+  trackGame(gameId: string): void {
+    this.claimGame(gameId).catch((error) =>
+      logger.error(`Failed to claim game ${gameId}:`, error)
+    );
+  }
+
+  releaseGame(gameId: string): void {
+    if (!this.ownedGames.delete(gameId)) return;
+
+    const store = getStore();
+    Promise.all([
+      store.compareAndDelete(this.ownerKey(gameId), this.instanceId),
+      store.hdel(VIEWERS_KEY, gameId),
+    ]).catch((error) => logger.error(`Failed to release game ${gameId}:`, error));
+  }
+
+  getOwner(gameId: string): Promise<string | null> {
+    return getStore().get(this.ownerKey(gameId));
+  }
+
+  async isInstanceAlive(instanceId: string): Promise<boolean> {
+    return (await getStore().get(this.instanceKey(instanceId))) !== null;
+  }
+
+  /**
+   * Claims the join code for the game unless a game on any instance holds it
+   */
+  reserveJoinCode(joinCode: string, gameId: string): Promise<boolean> {
+    return getStore().set(this.joinCodeKey(joinCode), gameId, { onlyIfAbsent: true });
+  }
+
+  lookupJoinCode(joinCode: string): Promise<string | null> {
+    return getStore().get(this.joinCodeKey(joinCode));
+  }
+
+  releaseJoinCode(joinCode: string, gameId: string): void {
+    getStore()
+      .compareAndDelete(this.joinCodeKey(joinCode), gameId)
+      .catch((error) => logger.error(`Failed to release join code ${joinCode}:`, error));
+  }
+
+  setViewerCount(gameId: string, viewers: number): void {
+    const store = getStore();
+    const update =
+      viewers > 0 ? store.hset(VIEWERS_KEY, gameId, String(viewers)) : store.hdel(VIEWERS_KEY, gameId);
+    update.catch((error) => logger.error(`Failed to store viewer count of ${gameId}:`, error));
+  }
+
+  async getViewerCounts(): Promise<Record<string, number>> {
+    const counts = await getStore().hgetall(VIEWERS_KEY);
+    return Object.fromEntries(
+      Object.entries(counts).map(([gameId, viewers]) => [gameId, Number(viewers)])
+    );
+  }
+
+  async sendToInstance(instanceId: string, message: ClusterMessage): Promise<void> {
+    await getStore().publish(this.channelFor(instanceId), JSON.stringify(message));
+  }
+
+  async broadcast(message: ClusterMessage): Promise<void> {
+    await getStore().publish(BROADCAST_CHANNEL, JSON.stringify(message));
+  }
+
+  private async renewLeases(): Promise<void> {
+    const store = getStore();
+    await store.set(this.instanceKey(this.instanceId), String(Date.now()), {
+      ttlMs: config.cluster.gameLeaseMs,
+    });
+
+    for (const gameId of Array.from(this.ownedGames)) {
+      const renewed = await store.compareAndExpire(
+        this.ownerKey(gameId),
+        this.instanceId,
+        config.cluster.gameLeaseMs
+      );
+      if (!renewed) {
+        this.ownedGames.delete(gameId);
+        logger.warn(`Lost ownership of game ${gameId}`);
+        for (const listener of this.ownershipListeners) {
+          listener(gameId);
+        }
+      }
+    }
+  }
+
+  private ownerKey(gameId: string): string {
+    return `game:owner:${gameId}`;
+  }
+
+  private instanceKey(instanceId: string): string {
+    return `cluster:instance:${instanceId}`;
+  }
+
+  private joinCodeKey(joinCode: string): string {
+    return `game:joincode:${joinCode}`;
+  }
+
+  private channelFor(instanceId: string): string {
+    return `cluster:instance:${instanceId}:events`;
+  }
+}
+
+export const clusterService = new ClusterService();
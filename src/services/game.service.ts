@@ -1,40 +1,220 @@
 import { v4 as uuidv4 } from 'uuid';
-import { GameState, Player, MoveResult, Position, CellValue } from '../models/types';
+import { randomInt } from 'crypto';
+import {
+  GameState,
+  Player,
+  MoveResult,
+  MoveRecord,
+  Position,
+  CellValue,
+  CreateGameOptions,
+  DrawOfferResult,
+  GameVariant,
+  HintResult,
+  PlayerSide,
+  TimeControl,
+} from '../models/types';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
+import { checkpointService } from './checkpoint.service';
+import { historyService } from './history.service';
+import { clusterService } from './cluster.service';
+import {
+  canPlay,
+  fromBoard,
+  isFull,
+  isWinningMove,
+  landingRow,
+  play,
+  toBoard,
+} from '../engine/bitboard';
+
+// Join code alphabet without look-alike characters (0/O, 1/I/L)
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
 
 class GameService {
   private games: Map<string, GameState> = new Map();
+  private joinCodes: Map<string, string> = new Map();
 
-  createGame(player1: Player): GameState {
+  createGame(player1: Player, options: CreateGameOptions = {}): GameState {
     const gameId = uuidv4();
-    const board: CellValue[][] = Array(config.game.rows)
+    const variant = options.variant ?? this.getVariant(config.game.defaultVariant)!;
+    const timeControl =
+      options.timeControl ?? this.getTimeControl(config.game.defaultTimeControl)!;
+    const startingTime = timeControl.perMoveMs ?? timeControl.initialMs;
+    const board: CellValue[][] = Array(variant.rows)
       .fill(null)
-      .map(() => Array(config.game.cols).fill('empty'));
+      .map(() => Array(variant.cols).fill('empty'));
 
     const game: GameState = {
       id: gameId,
+      variant,
       board,
+      moves: [],
       player1,
       player2: null,
       currentTurn: 'player1',
       status: 'waiting',
       winner: null,
+      endReason: null,
       createdAt: new Date(),
       lastMoveAt: new Date(),
       disconnectedPlayer: null,
+      disconnectDeadline: null,
       disconnectTimeout: null,
+      clock: {
+        timeControl,
+        remainingMs: { player1: startingTime, player2: startingTime },
+        turnStartedAt: null,
+      },
+      clockTimeout: null,
+      botDifficulty: options.botDifficulty ?? null,
+      isPrivate: options.isPrivate ?? false,
+      joinCode: null,
+      series: options.series ?? null,
+      drawOffers: [],
+      pendingDrawOffer: null,
+      tournamentId: options.tournamentId ?? null,
+      hintsUsed: {},
     };
 
     this.games.set(gameId, game);
+    clusterService.trackGame(gameId);
+    checkpointService.saveGame(game);
     logger.info(`Game created: ${gameId} by player ${player1.username}`);
     return game;
   }
 
+  /**
+   * Creates a private room others join with its code. The code is reserved
+   * in the shared store, so no two instances hand out the same one.
+   */
+  async createPrivateGame(player1: Player, options: CreateGameOptions = {}): Promise<GameState> {
+    const game = this.createGame(player1, { ...options, isPrivate: true });
+    game.joinCode = await this.reserveJoinCode(game.id);
+    this.joinCodes.set(game.joinCode, game.id);
+    checkpointService.saveGame(game);
+    return game;
+  }
+
+  /**
+   * Adopts the stored games no running instance owns: on startup the games
+   * that were in progress when this server stopped, later the games of
+   * instances that went away
+   */
+  async restoreGames(): Promise<GameState[]> {
+    const candidates = await checkpointService.loadGames();
+    const restored: GameState[] = [];
+
+    for (const candidate of candidates) {
+      if (this.games.has(candidate.id)) continue;
+      const game = await this.restoreGame(candidate.id);
+      if (game) {
+        restored.push(game);
+      }
+    }
+
+    if (restored.length > 0) {
+      logger.info(`Restored ${restored.length} in-progress game(s)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Claims an unowned game and loads it from its checkpoint. The claim comes
+   * first so the state read afterwards cannot be changed by a previous owner.
+   */
+  async restoreGame(gameId: string): Promise<GameState | null> {
+    if (!(await clusterService.claimGame(gameId))) {
+      return null;
+    }
+
+    const game = await checkpointService.loadGame(gameId);
+    if (!game) {
+      clusterService.releaseGame(gameId);
+      return null;
+    }
+
+    // Time the game spent without an owner is not charged to the player on move
+    if (game.status === 'active') {
+      game.clock.turnStartedAt = new Date();
+    }
+    this.games.set(game.id, game);
+    if (game.joinCode && game.status === 'waiting') {
+      this.joinCodes.set(game.joinCode, game.id);
+    }
+    return game;
+  }
+
+  /**
+   * Drops a game whose ownership passed to another instance, keeping its
+   * checkpoint for the new owner
+   */
+  evictGame(gameId: string): void {
+    const game = this.games.get(gameId);
+    if (!game) return;
+
+    if (game.disconnectTimeout) clearTimeout(game.disconnectTimeout);
+    if (game.clockTimeout) clearTimeout(game.clockTimeout);
+    if (game.joinCode && this.joinCodes.get(game.joinCode) === gameId) {
+      this.joinCodes.delete(game.joinCode);
+    }
+    this.games.delete(gameId);
+    logger.info(`Game ${gameId} handed over to another instance`);
+  }
+
+  /**
+   * Looks up a board preset by name, e.g. "standard" (6x7, four in a row)
+   */
+  getVariant(name: string): GameVariant | null {
+    if (!Object.prototype.hasOwnProperty.call(config.game.variants, name)) {
+      return null;
+    }
+    return { name, ...config.game.variants[name] };
+  }
+
+  /**
+   * Looks up a clock preset by name, e.g. "rapid" (10 minutes + 5 seconds)
+   */
+  getTimeControl(name: string): TimeControl | null {
+    if (!Object.prototype.hasOwnProperty.call(config.game.timeControls, name)) {
+      return null;
+    }
+    return { name, ...config.game.timeControls[name] };
+  }
+
+  /**
+   * Time left on a player's clock, including the running time of the turn
+   * in progress
+   */
+  getTimeRemaining(game: GameState, side: PlayerSide): number {
+    const { clock } = game;
+    let remaining = clock.remainingMs[side];
+    if (game.status === 'active' && game.currentTurn === side && clock.turnStartedAt) {
+      remaining -= Date.now() - clock.turnStartedAt.getTime();
+    }
+    return Math.max(remaining, 0);
+  }
+
+  getClockSnapshot(game: GameState): Record<PlayerSide, number> {
+    return {
+      player1: this.getTimeRemaining(game, 'player1'),
+      player2: this.getTimeRemaining(game, 'player2'),
+    };
+  }
+
   getGame(gameId: string): GameState | undefined {
     return this.games.get(gameId);
   }
 
+  /**
+   * Finds a private game that is still waiting for its second player
+   */
+  getGameByJoinCode(joinCode: string): GameState | undefined {
+    const gameId = this.joinCodes.get(joinCode.trim().toUpperCase());
+    return gameId ? this.games.get(gameId) : undefined;
+  }
+
   getAllActiveGames(): GameState[] {
     return Array.from(this.games.values()).filter(
       (game) => game.status === 'active' || game.status === 'waiting'
@@ -49,6 +229,12 @@ class GameService {
 
     game.player2 = player2;
     game.status = 'active';
+    game.clock.turnStartedAt = new Date();
+    if (game.joinCode) {
+      this.joinCodes.delete(game.joinCode);
+      clusterService.releaseJoinCode(game.joinCode, gameId);
+    }
+    checkpointService.saveGame(game);
     logger.info(`Player ${player2.username} joined game ${gameId}`);
     return game;
   }
@@ -69,146 +255,259 @@ class GameService {
       return { success: false, error: 'Not your turn' };
     }
 
-    if (column < 0 || column >= config.game.cols) {
-      return { success: false, error: 'Invalid column' };
+    if (this.getTimeRemaining(game, game.currentTurn) === 0) {
+      return { success: false, error: 'Out of time' };
     }
 
-    // Find the lowest empty row in the column
-    let row = -1;
-    for (let r = config.game.rows - 1; r >= 0; r--) {
-      if (game.board[r][column] === 'empty') {
-        row = r;
-        break;
-      }
+    if (!Number.isInteger(column) || column < 0 || column >= game.variant.cols) {
+      return { success: false, error: 'Invalid column' };
     }
 
-    if (row === -1) {
+    const before = fromBoard(game.board, game.variant.connect, game.currentTurn);
+    if (!canPlay(before, column)) {
       return { success: false, error: 'Column is full' };
     }
 
-    // Place the piece
-    game.board[row][column] = game.currentTurn;
+    // Place the piece; playing on lets a pending draw offer lapse
+    const row = landingRow(before, column);
+    const after = play(before, column);
+    game.board = toBoard(after);
+    game.pendingDrawOffer = null;
     game.lastMoveAt = new Date();
+    this.advanceClock(game, game.currentTurn);
 
     const position: Position = { row, col: column };
 
+    // Record the move for replays
+    const move: MoveRecord = {
+      playerId,
+      column,
+      row,
+      ply: game.moves.length + 1,
+      timestamp: game.lastMoveAt,
+    };
+    game.moves.push(move);
+    historyService.recordMove(gameId, move);
+
     // Check for winner
-    if (this.checkWinner(game.board, row, column)) {
+    if (isWinningMove(before, column)) {
       game.status = 'completed';
       game.winner = currentPlayer.id;
+      game.endReason = 'win';
+      checkpointService.saveGame(game);
       logger.info(`Game ${gameId} won by ${currentPlayer.username}`);
       return { success: true, position, winner: currentPlayer.id };
     }
 
     // Check for draw
-    if (this.isBoardFull(game.board)) {
+    if (isFull(after)) {
       game.status = 'completed';
+      game.endReason = 'draw';
+      checkpointService.saveGame(game);
       logger.info(`Game ${gameId} ended in a draw`);
       return { success: true, position, isDraw: true };
     }
 
     // Switch turns
     game.currentTurn = game.currentTurn === 'player1' ? 'player2' : 'player1';
+    checkpointService.saveGame(game);
 
     return { success: true, position };
   }
 
-  private checkWinner(board: CellValue[][], row: number, col: number): boolean {
-    const piece = board[row][col];
-    if (piece === 'empty') return false;
-
-    // Check horizontal
-    if (this.checkDirection(board, row, col, 0, 1, piece)) return true;
-    // Check vertical
-    if (this.checkDirection(board, row, col, 1, 0, piece)) return true;
-    // Check diagonal /
-    if (this.checkDirection(board, row, col, 1, 1, piece)) return true;
-    // Check diagonal \
-    if (this.checkDirection(board, row, col, 1, -1, piece)) return true;
-
-    return false;
-  }
-
-  private checkDirection(
-    board: CellValue[][],
-    row: number,
-    col: number,
-    deltaRow: number,
-    deltaCol: number,
-    piece: CellValue
-  ): boolean {
-    let count = 1;
-
-    // Check positive direction
-    let r = row + deltaRow;
-    let c = col + deltaCol;
-    while (
-      r >= 0 &&
-      r < config.game.rows &&
-      c >= 0 &&
-      c < config.game.cols &&
-      board[r][c] === piece
-    ) {
-      count++;
-      r += deltaRow;
-      c += deltaCol;
-    }
-
-    // Check negative direction
-    r = row - deltaRow;
-    c = col - deltaCol;
-    while (
-      r >= 0 &&
-      r < config.game.rows &&
-      c >= 0 &&
-      c < config.game.cols &&
-      board[r][c] === piece
-    ) {
-      count++;
-      r -= deltaRow;
-      c -= deltaCol;
-    }
-
-    return count >= 4;
-  }
-
-  private isBoardFull(board: CellValue[][]): boolean {
-    return board[0].every((cell) => cell !== 'empty');
+  /**
+   * Charges the mover for the time spent on this move and starts the
+   * opponent's turn
+   */
+  private advanceClock(game: GameState, mover: PlayerSide): void {
+    const { clock } = game;
+    const now = Date.now();
+    const elapsed = clock.turnStartedAt ? now - clock.turnStartedAt.getTime() : 0;
+    const { perMoveMs, incrementMs } = clock.timeControl;
+
+    clock.remainingMs[mover] =
+      perMoveMs !== null ? perMoveMs : clock.remainingMs[mover] - elapsed + incrementMs;
+    clock.turnStartedAt = new Date(now);
+  }
+
+  /**
+   * Cancels a private room before anyone has joined it. Only the creator
+   * may cancel.
+   */
+  cancelGame(gameId: string, playerId: string): boolean {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'waiting' || game.player1.id !== playerId) {
+      return false;
+    }
+
+    this.deleteGame(gameId);
+    logger.info(`Game ${gameId} cancelled by player ${playerId}`);
+    return true;
+  }
+
+  private async reserveJoinCode(gameId: string): Promise<string> {
+    for (;;) {
+      const code = Array.from(
+        { length: config.game.joinCodeLength },
+        () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+      ).join('');
+      if (!this.joinCodes.has(code) && (await clusterService.reserveJoinCode(code, gameId))) {
+        return code;
+      }
+    }
   }
 
   deleteGame(gameId: string): void {
+    const game = this.games.get(gameId);
+    if (game?.joinCode && this.joinCodes.get(game.joinCode) === gameId) {
+      this.joinCodes.delete(game.joinCode);
+      clusterService.releaseJoinCode(game.joinCode, gameId);
+    }
     this.games.delete(gameId);
+    clusterService.releaseGame(gameId);
+    checkpointService.removeGame(gameId);
     logger.info(`Game ${gameId} deleted`);
   }
 
-  setDisconnected(gameId: string, playerId: string): void {
+  /**
+   * Marks a player as disconnected and returns the deadline by which they
+   * must rejoin before forfeiting
+   */
+  setDisconnected(gameId: string, playerId: string): Date | null {
     const game = this.games.get(gameId);
-    if (game) {
-      game.disconnectedPlayer = playerId;
-    }
+    if (!game) return null;
+
+    game.disconnectedPlayer = playerId;
+    game.disconnectDeadline = new Date(Date.now() + config.game.reconnectTimeout);
+    checkpointService.saveGame(game);
+    return game.disconnectDeadline;
   }
 
   clearDisconnected(gameId: string): void {
     const game = this.games.get(gameId);
     if (game) {
       game.disconnectedPlayer = null;
+      game.disconnectDeadline = null;
       if (game.disconnectTimeout) {
         clearTimeout(game.disconnectTimeout);
         game.disconnectTimeout = null;
       }
+      checkpointService.saveGame(game);
+    }
+  }
+
+  /**
+   * Uses up one of the player's hints. Hints are only available on their
+   * own turn in casual (unrated) games, i.e. games against the bot.
+   */
+  useHint(gameId: string, playerId: string): HintResult {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'active') {
+      return { success: false, error: 'Game is not active' };
+    }
+
+    const side = game.player1.id === playerId ? 'player1' : game.player2?.id === playerId ? 'player2' : null;
+    if (!side) {
+      return { success: false, error: 'Player not in this game' };
+    }
+
+    if (!game.player1.isBot && !game.player2?.isBot) {
+      return { success: false, error: 'Hints are only available in casual games' };
+    }
+
+    if (game.currentTurn !== side) {
+      return { success: false, error: 'Not your turn' };
+    }
+
+    const used = game.hintsUsed[playerId] ?? 0;
+    if (used >= config.analysis.maxHintsPerGame) {
+      return { success: false, error: 'No hints left' };
+    }
+
+    game.hintsUsed[playerId] = used + 1;
+    checkpointService.saveGame(game);
+    logger.info(`Player ${playerId} used a hint in game ${gameId}`);
+    return { success: true, hintsRemaining: config.analysis.maxHintsPerGame - used - 1 };
+  }
+
+  /**
+   * Records a draw offer. A player may have one offer pending, a limited
+   * number per game, and must let some moves pass between offers.
+   */
+  offerDraw(gameId: string, playerId: string): DrawOfferResult {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'active') {
+      return { success: false, error: 'Game is not active' };
+    }
+
+    if (game.player1.id !== playerId && game.player2?.id !== playerId) {
+      return { success: false, error: 'Player not in this game' };
+    }
+
+    if (game.pendingDrawOffer) {
+      return { success: false, error: 'A draw offer is already pending' };
+    }
+
+    const previousOffers = game.drawOffers.filter((offer) => offer.playerId === playerId);
+    if (previousOffers.length >= config.game.maxDrawOffers) {
+      return { success: false, error: 'No draw offers left' };
+    }
+
+    const lastOffer = previousOffers[previousOffers.length - 1];
+    if (lastOffer && game.moves.length - lastOffer.ply < config.game.drawOfferInterval) {
+      return { success: false, error: 'Too soon to offer another draw' };
+    }
+
+    game.drawOffers.push({ playerId, ply: game.moves.length });
+    game.pendingDrawOffer = playerId;
+    checkpointService.saveGame(game);
+    logger.info(`Player ${playerId} offered a draw in game ${gameId}`);
+    return { success: true };
+  }
+
+  /**
+   * Answers the opponent's pending draw offer; accepting ends the game
+   */
+  respondToDraw(gameId: string, playerId: string, accept: boolean): DrawOfferResult {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'active') {
+      return { success: false, error: 'Game is not active' };
+    }
+
+    if (game.player1.id !== playerId && game.player2?.id !== playerId) {
+      return { success: false, error: 'Player not in this game' };
+    }
+
+    if (!game.pendingDrawOffer || game.pendingDrawOffer === playerId) {
+      return { success: false, error: 'No draw offer to answer' };
+    }
+
+    game.pendingDrawOffer = null;
+    if (accept) {
+      game.status = 'completed';
+      game.endReason = 'draw';
+      logger.info(`Game ${gameId} drawn by agreement`);
     }
+    checkpointService.saveGame(game);
+    return { success: true, accepted: accept };
   }
 
-  forfeitGame(gameId: string, playerId: string): void {
+  forfeitGame(
+    gameId: string,
+    playerId: string,
+    reason: 'forfeit' | 'timeout' = 'forfeit'
+  ): void {
     const game = this.games.get(gameId);
     if (game && game.status === 'active') {
       game.status = 'forfeited';
+      game.endReason = reason;
       const opponent =
         game.player1.id === playerId
           ? game.player2
           : game.player1;
       game.winner = opponent?.id || null;
-      logger.info(`Game ${gameId} forfeited by player ${playerId}`);
+      checkpointService.saveGame(game);
+      logger.info(`Game ${gameId} forfeited (${reason}) by player ${playerId}`);
     }
   }
 }
@@ -0,0 +1,94 @@
+import { prisma } from '../config/database';
+import { CellValue, MoveRecord } from '../models/types';
+import { logger } from '../utils/logger';
+
+export interface GameReplay {
+  gameId: string;
+  player1Id: string | null; // null when the bot played this side
+  player2Id: string | null;
+  winnerId: string | null;
+  variant: string;
+  rows: number;
+  cols: number;
+  connect: number;
+  moves: MoveRecord[];
+  snapshots: CellValue[][][];
+}
+
+class HistoryService {
+  async recordMove(gameId: string, move: MoveRecord): Promise<void> {
+    try {
+      await prisma.move.create({
+        data: {
+          gameId,
+          playerId: move.playerId,
+          column: move.column,
+          row: move.row,
+          ply: move.ply,
+          createdAt: move.timestamp,
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record move ${move.ply} of game ${gameId}:`, error);
+    }
+  }
+
+  async getMoves(gameId: string): Promise<MoveRecord[]> {
+    const rows = await prisma.move.findMany({
+      where: { gameId },
+      orderBy: { ply: 'asc' },
+    });
+
+    return rows.map((row) => ({
+      playerId: row.playerId,
+      column: row.column,
+      row: row.row,
+      ply: row.ply,
+      timestamp: row.createdAt,
+    }));
+  }
+
+  /**
+   * Loads a finished game with its ordered moves and the board after every
+   * ply (snapshots[0] is the empty board)
+   */
+  async getReplay(gameId: string): Promise<GameReplay | null> {
+    const game = await prisma.game.findUnique({ where: { id: gameId } });
+    if (!game) {
+      return null;
+    }
+
+    const moves = await this.getMoves(gameId);
+
+    return {
+      gameId: game.id,
+      player1Id: game.player1Id,
+      player2Id: game.player2Id,
+      winnerId: game.winnerId,
+      variant: game.variant,
+      rows: game.rows,
+      cols: game.cols,
+      connect: game.connect,
+      moves,
+      snapshots: this.buildSnapshots(moves, game.rows, game.cols),
+    };
+  }
+
+  buildSnapshots(moves: MoveRecord[], rows: number, cols: number): CellValue[][][] {
+    let board: CellValue[][] = Array(rows)
+      .fill(null)
+      .map(() => Array(cols).fill('empty'));
+    const snapshots = [board];
+
+    for (const move of moves) {
+      board = board.map((row) => [...row]);
+      // player1 always makes the first move, so odd plies belong to player1
+      board[move.row][move.column] = move.ply % 2 === 1 ? 'player1' : 'player2';
+      snapshots.push(board);
+    }
+
+    return snapshots;
+  }
+}
+
+export const historyService = new HistoryService();
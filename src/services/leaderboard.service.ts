@@ -0,0 +1,320 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+import { BotDifficulty } from '../models/types';
+import { LeaderboardMode } from './season.service';
+
+export type LeaderboardSort = 'wins' | 'rating';
+
+export interface LeaderboardQuery {
+  seasonId?: string;
+  window?: string; // key of config.leaderboard.windows
+  mode?: LeaderboardMode;
+  sortBy: LeaderboardSort;
+  limit: number;
+  cursor?: LeaderboardCursor | null;
+}
+
+// Sort values of the last entry of the previous page and its rank
+export interface LeaderboardCursor {
+  values: (number | string)[];
+  rank: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  rating: number;
+  ratingDeviation: number;
+  winRate: string;
+}
+
+interface Totals {
+  playerId: string;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+type RankedRow = Totals & { rating: number; ratingDeviation: number; username: string };
+
+interface SortKey {
+  field: 'wins' | 'losses' | 'rating' | 'ratingDeviation' | 'playerId';
+  direction: 'asc' | 'desc';
+}
+
+type Condition = Record<string, unknown>;
+
+const SORT_KEYS: Record<LeaderboardSort, SortKey[]> = {
+  wins: [
+    { field: 'wins', direction: 'desc' },
+    { field: 'losses', direction: 'asc' },
+    { field: 'playerId', direction: 'asc' },
+  ],
+  rating: [
+    { field: 'rating', direction: 'desc' },
+    { field: 'ratingDeviation', direction: 'asc' },
+    { field: 'playerId', direction: 'asc' },
+  ],
+};
+
+/**
+ * Answers the leaderboard queries. Without a season, window or mode the
+ * all-time counters on Player are ranked; otherwise the season or hourly
+ * stat rows are summed per player. Pages are keyset-paginated on the sort
+ * values, so entries do not shift between pages as results come in.
+ */
+class LeaderboardService {
+  async getPage(
+    query: LeaderboardQuery
+  ): Promise<{ entries: LeaderboardEntry[]; nextCursor: string | null }> {
+    const keys = SORT_KEYS[query.sortBy];
+    const firstRank = (query.cursor?.rank ?? 0) + 1;
+    let rows: RankedRow[];
+
+    if (this.isAllTime(query)) {
+      const players = await prisma.player.findMany({
+        where: {
+          isBot: false,
+          ...(query.cursor && this.beyond(keys, query.cursor.values, 'after', this.playerField)),
+        },
+        orderBy: keys.map((key) => ({ [key.field === 'playerId' ? 'id' : key.field]: key.direction })),
+        take: query.limit + 1,
+      });
+      rows = players.map((player) => ({ ...player, playerId: player.id }));
+    } else {
+      const groups = await this.groupTotals(query, {
+        having: query.cursor ? this.beyond(keys, query.cursor.values, 'after', this.groupField) : undefined,
+        take: query.limit + 1,
+      });
+      rows = await this.withPlayers(groups);
+    }
+
+    const hasMore = rows.length > query.limit;
+    const entries = rows.slice(0, query.limit).map((row, index) => this.toEntry(row, firstRank + index));
+
+    const last = rows[query.limit - 1];
+    return {
+      entries,
+      nextCursor: hasMore
+        ? this.encodeCursor({
+            values: this.sortValues(keys, last),
+            rank: firstRank + query.limit - 1,
+          })
+        : null,
+    };
+  }
+
+  /**
+   * The player's position on the board described by the query, or null if
+   * they have no results on it
+   */
+  async getRank(
+    playerId: string,
+    query: Omit<LeaderboardQuery, 'limit' | 'cursor'>
+  ): Promise<LeaderboardEntry | null> {
+    const keys = SORT_KEYS[query.sortBy];
+
+    if (this.isAllTime(query)) {
+      const player = await prisma.player.findUnique({ where: { id: playerId } });
+      if (!player || player.isBot) return null;
+
+      const row = { ...player, playerId: player.id };
+      const ahead = await prisma.player.count({
+        where: {
+          isBot: false,
+          ...this.beyond(keys, this.sortValues(keys, row), 'before', this.playerField),
+        },
+      });
+      return this.toEntry(row, ahead + 1);
+    }
+
+    const [own] = await this.groupTotals(query, { playerId });
+    if (!own) return null;
+
+    const [row] = await this.withPlayers([own]);
+    const ahead = await this.groupTotals(query, {
+      having: this.beyond(keys, this.sortValues(keys, row), 'before', this.groupField),
+    });
+    return this.toEntry(row, ahead.length + 1);
+  }
+
+  /**
+   * The bot accounts with their all-time records, easiest first. Bots are
+   * kept off the player rankings.
+   */
+  async getBots(): Promise<(LeaderboardEntry & { difficulty: BotDifficulty })[]> {
+    const bots = await prisma.player.findMany({ where: { isBot: true } });
+    const difficulties = Object.keys(config.bot.difficulties);
+
+    // Every bot account has its difficulty set
+    return bots
+      .sort(
+        (a, b) => difficulties.indexOf(a.botDifficulty!) - difficulties.indexOf(b.botDifficulty!)
+      )
+      .map((bot, index) => ({
+        ...this.toEntry({ ...bot, playerId: bot.id }, index + 1),
+        difficulty: bot.botDifficulty as BotDifficulty,
+      }));
+  }
+
+  /**
+   * Reads a cursor issued for the given sort order; anything else, including
+   * cursors whose values do not match the sort keys, is rejected
+   */
+  decodeCursor(cursor: string, sortBy: LeaderboardSort): LeaderboardCursor | null {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      const keys = SORT_KEYS[sortBy];
+      const values: unknown = parsed?.values;
+
+      if (
+        Array.isArray(values) &&
+        values.length === keys.length &&
+        keys.every((key, index) =>
+          key.field === 'playerId'
+            ? typeof values[index] === 'string'
+            : Number.isFinite(values[index])
+        ) &&
+        Number.isInteger(parsed.rank) &&
+        parsed.rank >= 0
+      ) {
+        return { values, rank: parsed.rank };
+      }
+    } catch {
+      // Fall through to reject the cursor
+    }
+    return null;
+  }
+
+  private encodeCursor(cursor: LeaderboardCursor): string {
+    return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+  }
+
+  private isAllTime(query: Pick<LeaderboardQuery, 'seasonId' | 'window' | 'mode'>): boolean {
+    return !query.seasonId && !query.window && !query.mode;
+  }
+
+  /**
+   * Sums the results per player from the season rows, the hourly buckets of
+   * the rolling window, or every season when only a mode is given
+   */
+  private async groupTotals(
+    query: Pick<LeaderboardQuery, 'seasonId' | 'window' | 'mode'>,
+    options: { having?: Condition; take?: number; playerId?: string }
+  ): Promise<Totals[]> {
+    // The keyset conditions are built for both tables, which share the
+    // summed columns
+    const groups = query.window
+      ? await prisma.playerStatHour.groupBy({
+          by: ['playerId'],
+          where: {
+            bucket: { gte: this.windowStart(query.window) },
+            mode: query.mode,
+            playerId: options.playerId,
+          },
+          _sum: { wins: true, losses: true, draws: true },
+          having: options.having as Prisma.PlayerStatHourScalarWhereWithAggregatesInput | undefined,
+          orderBy: [{ _sum: { wins: 'desc' } }, { _sum: { losses: 'asc' } }, { playerId: 'asc' }],
+          take: options.take,
+        })
+      : await prisma.seasonStat.groupBy({
+          by: ['playerId'],
+          where: { seasonId: query.seasonId, mode: query.mode, playerId: options.playerId },
+          _sum: { wins: true, losses: true, draws: true },
+          having: options.having as Prisma.SeasonStatScalarWhereWithAggregatesInput | undefined,
+          orderBy: [{ _sum: { wins: 'desc' } }, { _sum: { losses: 'asc' } }, { playerId: 'asc' }],
+          take: options.take,
+        });
+
+    return groups.map((group) => ({
+      playerId: group.playerId,
+      wins: group._sum.wins ?? 0,
+      losses: group._sum.losses ?? 0,
+      draws: group._sum.draws ?? 0,
+    }));
+  }
+
+  /**
+   * Start of the rolling window, rounded down to its first hourly bucket
+   */
+  private windowStart(window: string): Date {
+    const since = new Date(Date.now() - config.leaderboard.windows[window] * 3600000);
+    since.setUTCMinutes(0, 0, 0);
+    return since;
+  }
+
+  private async withPlayers(totals: Totals[]): Promise<RankedRow[]> {
+    const players = await prisma.player.findMany({
+      where: { id: { in: totals.map((row) => row.playerId) } },
+      select: { id: true, username: true, rating: true, ratingDeviation: true },
+    });
+    const byId = new Map(players.map((player) => [player.id, player]));
+
+    return totals.map((row) => {
+      const player = byId.get(row.playerId);
+      return {
+        ...row,
+        username: player?.username ?? 'Unknown',
+        rating: player?.rating ?? config.rating.initial,
+        ratingDeviation: player?.ratingDeviation ?? config.rating.initialDeviation,
+      };
+    });
+  }
+
+  /**
+   * Keyset condition matching the rows sorted after (or before) the given
+   * sort values
+   */
+  private beyond(
+    keys: SortKey[],
+    values: (number | string)[],
+    side: 'after' | 'before',
+    wrap: (field: string, filter: Condition) => Condition
+  ): Condition {
+    return {
+      OR: keys.map((key, index) => {
+        const later = (key.direction === 'desc') === (side === 'after') ? 'lt' : 'gt';
+        return {
+          AND: [
+            ...keys.slice(0, index).map((previous, j) => wrap(previous.field, { equals: values[j] })),
+            wrap(key.field, { [later]: values[index] }),
+          ],
+        };
+      }),
+    };
+  }
+
+  private sortValues(keys: SortKey[], row: RankedRow): (number | string)[] {
+    return keys.map((key) => row[key.field]);
+  }
+
+  private playerField(field: string, filter: Condition): Condition {
+    return { [field === 'playerId' ? 'id' : field]: filter };
+  }
+
+  private groupField(field: string, filter: Condition): Condition {
+    return field === 'playerId' ? { playerId: filter } : { [field]: { _sum: filter } };
+  }
+
+  private toEntry(row: RankedRow, rank: number): LeaderboardEntry {
+    return {
+      rank,
+      username: row.username,
+      wins: row.wins,
+      losses: row.losses,
+      draws: row.draws,
+      rating: Math.round(row.rating),
+      ratingDeviation: Math.round(row.ratingDeviation),
+      winRate:
+        row.wins + row.losses > 0
+          ? ((row.wins / (row.wins + row.losses)) * 100).toFixed(1)
+          : '0.0',
+    };
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
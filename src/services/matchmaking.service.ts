@@ -1,74 +1,394 @@
-import { v4 as uuidv4 } from 'uuid';
-import { Player } from '../models/types';
+import {
+  BotDifficulty,
+  GameState,
+  GameVariant,
+  MatchmakingEvent,
+  Player,
+  QueueOptions,
+  QueueStatus,
+  TimeControl,
+} from '../models/types';
 import { gameService } from './game.service';
+import { ratingService } from './rating.service';
+import { playerService } from './player.service';
+import { clusterService } from './cluster.service';
+import { getStore, withLock } from '../config/store';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
 
+// The queue lives in the shared store so players connected to different
+// instances can meet; every read-modify-write of it happens under the lock
+const QUEUE_KEY = 'matchmaking:queue';
+const QUEUE_LOCK = 'lock:matchmaking';
+// Moving average of how long matched players waited, per queue
+const WAIT_TIMES_KEY = 'matchmaking:wait-times';
+const WAIT_SMOOTHING = 0.2;
+
 interface WaitingPlayer {
   player: Player;
-  timeout: NodeJS.Timeout;
+  botDifficulty: BotDifficulty;
+  variant: GameVariant;
+  timeControl: TimeControl;
+  queueKey: string; // players only meet others with the same variant and clock
+  joinedAt: number;
+  botFallback: boolean;
+  waitMs: number; // until the bot game, or until leaving the queue without one
+  instanceId: string; // instance running the player's wait timer
 }
 
+type MatchListener = (game: GameState) => void;
+type QueueListener = (event: MatchmakingEvent) => void;
+
 class MatchmakingService {
-  private waitingPlayers: Map<string, WaitingPlayer> = new Map();
+  // Timers ending the wait of the players queued through this instance
+  private waitTimers: Map<string, NodeJS.Timeout> = new Map();
+  private matchListener: MatchListener | null = null;
+  private queueListener: QueueListener | null = null;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private nextStatusAt = 0;
+
+  /**
+   * Registers the callback notified for every game created by matchmaking,
+   * whether against another player or the bot
+   */
+  onMatch(listener: MatchListener): void {
+    this.matchListener = listener;
+  }
+
+  /**
+   * Registers the callback notified of periodic queue statuses and of
+   * players whose wait ran out without a bot fallback
+   */
+  onQueueEvent(listener: QueueListener): void {
+    this.queueListener = listener;
+  }
+
+  async addPlayerToQueue(player: Player, options: QueueOptions = {}): Promise<string | null> {
+    const variant = options.variant ?? gameService.getVariant(config.game.defaultVariant)!;
+    const timeControl =
+      options.timeControl ?? gameService.getTimeControl(config.game.defaultTimeControl)!;
+    const botFallback = options.botFallback ?? true;
+    const entry: WaitingPlayer = {
+      player,
+      botDifficulty: options.botDifficulty ?? config.bot.defaultDifficulty,
+      variant,
+      timeControl,
+      queueKey: `${variant.name}:${timeControl.name}`,
+      joinedAt: Date.now(),
+      botFallback,
+      waitMs:
+        options.maxWaitMs ??
+        (botFallback ? config.game.matchmakingTimeout : config.game.matchmakingMaxWait),
+      instanceId: clusterService.instanceId,
+    };
 
-  addPlayerToQueue(player: Player): string | null {
-    // Check if there's already a waiting player
-    const waitingEntry = Array.from(this.waitingPlayers.values())[0];
+    const game = await withLock(QUEUE_LOCK, async () => {
+      // Look for the closest-rated opponent in the same queue inside either
+      // player's window
+      const queue = await this.loadQueue();
+      const waitingEntry = this.findOpponent(queue, entry, Date.now());
 
-    if (waitingEntry && waitingEntry.player.id !== player.id) {
-      // Match found! Clear timeout and create game
-      clearTimeout(waitingEntry.timeout);
-      this.waitingPlayers.delete(waitingEntry.player.socketId);
+      if (waitingEntry) {
+        await getStore().hdel(QUEUE_KEY, waitingEntry.player.socketId);
+        await this.recordWaits(entry.queueKey, [entry.joinedAt - waitingEntry.joinedAt]);
+        return this.createMatch(waitingEntry, player);
+      }
 
-      const game = gameService.createGame(waitingEntry.player);
-      gameService.joinGame(game.id, player);
+      await getStore().hset(QUEUE_KEY, player.socketId, JSON.stringify(entry));
+      return null;
+    });
 
-      logger.info(`Matched players: ${waitingEntry.player.username} vs ${player.username}`);
+    if (game) {
+      this.matchListener?.(game);
       return game.id;
     }
 
-    // No match found, add to queue and set timeout for bot
-    const timeout = setTimeout(() => {
-      this.matchWithBot(player);
-    }, config.game.matchmakingTimeout);
-
-    this.waitingPlayers.set(player.socketId, { player, timeout });
-    logger.info(`Player ${player.username} added to matchmaking queue`);
+    // No match found; a repeated find_match replaces the previous wait
+    this.clearWaitTimer(player.socketId);
+    this.waitTimers.set(
+      player.socketId,
+      setTimeout(() => {
+        this.endWait(player.socketId).catch((error) =>
+          logger.error('Error ending matchmaking wait:', error)
+        );
+      }, entry.waitMs)
+    );
+    this.ensureSweep();
+    logger.info(`Player ${player.username} added to ${entry.queueKey} matchmaking queue`);
     return null;
   }
 
-  private matchWithBot(player: Player): void {
-    const waitingEntry = this.waitingPlayers.get(player.socketId);
-    if (!waitingEntry) return;
+  /**
+   * Where the player stands in their queue, or null if they are not queued
+   */
+  async getQueueStatus(socketId: string): Promise<QueueStatus | null> {
+    const queue = await this.loadQueue();
+    const entry = queue.find((other) => other.player.socketId === socketId);
+    if (!entry) return null;
+
+    const averageWaits = await getStore().hgetall(WAIT_TIMES_KEY);
+    return this.getStatus(queue, entry, Date.now(), averageWaits);
+  }
 
-    this.waitingPlayers.delete(player.socketId);
+  private getStatus(
+    queue: WaitingPlayer[],
+    entry: WaitingPlayer,
+    now: number,
+    averageWaits: Record<string, string>
+  ): QueueStatus {
+    const sameQueue = queue.filter((other) => other.queueKey === entry.queueKey);
+    const waitedMs = now - entry.joinedAt;
+    const botFallbackInMs = entry.botFallback
+      ? Math.max(entry.joinedAt + entry.waitMs - now, 0)
+      : null;
 
-    const bot: Player = {
-      id: uuidv4(),
-      username: 'Bot',
-      socketId: 'bot',
-      isBot: true,
+    // Expect the average wait of recent matches in this queue, and the bot
+    // game at the latest
+    const averageWait = averageWaits[entry.queueKey];
+    const expected = averageWait === undefined ? null : Math.round(Number(averageWait)) - waitedMs;
+    let estimatedWaitMs = expected !== null && expected > 0 ? expected : null;
+    if (botFallbackInMs !== null) {
+      estimatedWaitMs = Math.min(estimatedWaitMs ?? botFallbackInMs, botFallbackInMs);
+    }
+
+    return {
+      position: sameQueue.findIndex((other) => other.player.socketId === entry.player.socketId) + 1,
+      waiting: sameQueue.length,
+      waitedMs,
+      estimatedWaitMs,
+      botFallbackInMs,
     };
+  }
+
+  /**
+   * Folds the waits of matched players who had been queued into the queue's
+   * moving average. Bot games are left out: their wait is only the fallback
+   * delay.
+   */
+  private async recordWaits(queueKey: string, waits: number[]): Promise<void> {
+    const previous = await getStore().hget(WAIT_TIMES_KEY, queueKey);
+    let average = previous === null ? null : Number(previous);
+    for (const wait of waits) {
+      average = average === null ? wait : average + WAIT_SMOOTHING * (wait - average);
+    }
+    await getStore().hset(WAIT_TIMES_KEY, queueKey, String(Math.round(average!)));
+  }
+
+  private async loadQueue(): Promise<WaitingPlayer[]> {
+    const raw = await getStore().hgetall(QUEUE_KEY);
+    return Object.values(raw)
+      .map((value) => JSON.parse(value) as WaitingPlayer)
+      .sort((a, b) => a.joinedAt - b.joinedAt);
+  }
+
+  private findOpponent(
+    queue: WaitingPlayer[],
+    seeker: WaitingPlayer,
+    now: number
+  ): WaitingPlayer | null {
+    const rating = seeker.player.rating ?? config.rating.initial;
+    let best: WaitingPlayer | null = null;
+    let bestGap = Infinity;
+
+    for (const entry of queue) {
+      if (entry.player.id === seeker.player.id || entry.queueKey !== seeker.queueKey) continue;
+
+      const gap = Math.abs((entry.player.rating ?? config.rating.initial) - rating);
+      const window = Math.max(
+        ratingService.getRatingWindow(now - entry.joinedAt),
+        ratingService.getRatingWindow(now - seeker.joinedAt)
+      );
+
+      if (gap <= window && gap < bestGap) {
+        best = entry;
+        bestGap = gap;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Creates the game for two players already taken off the queue. The game
+   * is owned by this instance; both players are reached through the
+   * socket adapter, whichever instance they are connected to.
+   */
+  private createMatch(waitingEntry: WaitingPlayer, player: Player): GameState {
+    this.clearWaitTimer(waitingEntry.player.socketId);
+    this.clearWaitTimer(player.socketId);
+
+    const game = gameService.createGame(waitingEntry.player, {
+      variant: waitingEntry.variant,
+      timeControl: waitingEntry.timeControl,
+    });
+    gameService.joinGame(game.id, player);
+
+    logger.info(`Matched players: ${waitingEntry.player.username} vs ${player.username}`);
+    return game;
+  }
+
+  /**
+   * Re-checks queued players as their rating windows widen, so two players
+   * who were too far apart when they joined can still meet before the bot
+   * fallback fires. Entries left behind by instances that went away are
+   * dropped, since nothing would ever move them to a bot game. Players still
+   * waiting are sent their queue status every status interval.
+   */
+  private async sweepQueue(): Promise<void> {
+    const now = Date.now();
+    const { games, waiting } = await withLock(QUEUE_LOCK, async () => {
+      const store = getStore();
+      const liveInstances = new Map<string, boolean>();
+      const queue: WaitingPlayer[] = [];
+
+      for (const entry of await this.loadQueue()) {
+        if (!liveInstances.has(entry.instanceId)) {
+          liveInstances.set(entry.instanceId, await clusterService.isInstanceAlive(entry.instanceId));
+        }
+        if (liveInstances.get(entry.instanceId)) {
+          queue.push(entry);
+        } else {
+          await store.hdel(QUEUE_KEY, entry.player.socketId);
+          logger.info(`Dropped stale queue entry of ${entry.player.username}`);
+        }
+      }
+
+      const created: GameState[] = [];
+      const matched = new Set<string>();
+      for (const entry of queue) {
+        if (matched.has(entry.player.socketId)) continue;
+
+        const remaining = queue.filter((other) => !matched.has(other.player.socketId));
+        const opponent = this.findOpponent(remaining, entry, now);
+        if (opponent) {
+          matched.add(entry.player.socketId);
+          matched.add(opponent.player.socketId);
+          await store.hdel(QUEUE_KEY, entry.player.socketId);
+          await store.hdel(QUEUE_KEY, opponent.player.socketId);
+          await this.recordWaits(entry.queueKey, [now - entry.joinedAt, now - opponent.joinedAt]);
+          created.push(this.createMatch(opponent, entry.player));
+        }
+      }
+      return {
+        games: created,
+        waiting: queue.filter((entry) => !matched.has(entry.player.socketId)),
+      };
+    });
+
+    for (const game of games) {
+      this.matchListener?.(game);
+    }
+
+    if (now >= this.nextStatusAt) {
+      this.nextStatusAt = now + config.game.queueStatusInterval;
+      await this.publishStatuses(waiting, now);
+    }
+    this.stopSweepIfIdle();
+  }
+
+  /**
+   * Sends the queue status to the waiting players queued through this
+   * instance; those queued elsewhere get theirs from their own instance
+   */
+  private async publishStatuses(queue: WaitingPlayer[], now: number): Promise<void> {
+    const local = queue.filter((entry) => entry.instanceId === clusterService.instanceId);
+    if (!this.queueListener || local.length === 0) return;
+
+    const averageWaits = await getStore().hgetall(WAIT_TIMES_KEY);
+    for (const entry of local) {
+      this.queueListener({
+        type: 'status',
+        socketId: entry.player.socketId,
+        status: this.getStatus(queue, entry, now, averageWaits),
+      });
+    }
+  }
+
+  private ensureSweep(): void {
+    if (!this.sweepInterval) {
+      this.sweepInterval = setInterval(() => {
+        this.sweepQueue().catch((error) => logger.error('Error sweeping matchmaking queue:', error));
+      }, config.game.matchmakingSweepInterval);
+    }
+  }
+
+  private stopSweepIfIdle(): void {
+    if (this.sweepInterval && this.waitTimers.size === 0) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  private clearWaitTimer(socketId: string): void {
+    const timer = this.waitTimers.get(socketId);
+    if (timer) {
+      clearTimeout(timer);
+      this.waitTimers.delete(socketId);
+    }
+  }
 
-    const game = gameService.createGame(player);
+  /**
+   * Moves a player whose wait ran out to a bot game, or takes them off the
+   * queue if they opted out of the bot fallback
+   */
+  private async endWait(socketId: string): Promise<void> {
+    this.waitTimers.delete(socketId);
+    this.stopSweepIfIdle();
+
+    // The player may have been matched by another instance in the meantime
+    const waitingEntry = await withLock(QUEUE_LOCK, async () => {
+      const raw = await getStore().hget(QUEUE_KEY, socketId);
+      if (!raw) return null;
+      await getStore().hdel(QUEUE_KEY, socketId);
+      return JSON.parse(raw) as WaitingPlayer;
+    });
+    if (!waitingEntry) return;
+
+    if (!waitingEntry.botFallback) {
+      logger.info(`Matchmaking wait of ${waitingEntry.player.username} ran out`);
+      this.queueListener?.({ type: 'expired', socketId });
+      return;
+    }
+
+    const { player } = waitingEntry;
+    const bot = await playerService.getBotPlayer(waitingEntry.botDifficulty);
+
+    const game = gameService.createGame(player, {
+      botDifficulty: waitingEntry.botDifficulty,
+      variant: waitingEntry.variant,
+      timeControl: waitingEntry.timeControl,
+    });
     gameService.joinGame(game.id, bot);
 
-    logger.info(`Player ${player.username} matched with bot`);
+    logger.info(
+      `Player ${player.username} matched with bot (${waitingEntry.botDifficulty})`
+    );
+    this.matchListener?.(game);
   }
 
-  removePlayerFromQueue(socketId: string): void {
-    const waitingEntry = this.waitingPlayers.get(socketId);
-    if (waitingEntry) {
-      clearTimeout(waitingEntry.timeout);
-      this.waitingPlayers.delete(socketId);
+  /**
+   * Takes the player off the queue. Returns false if they were not queued.
+   */
+  async removePlayerFromQueue(socketId: string): Promise<boolean> {
+    this.clearWaitTimer(socketId);
+    this.stopSweepIfIdle();
+
+    const removed = await withLock(QUEUE_LOCK, async () => {
+      const raw = await getStore().hget(QUEUE_KEY, socketId);
+      if (raw) {
+        await getStore().hdel(QUEUE_KEY, socketId);
+      }
+      return raw !== null;
+    });
+    if (removed) {
       logger.info(`Player removed from matchmaking queue`);
     }
+    return removed;
   }
 
-  isPlayerInQueue(socketId: string): boolean {
-    return this.waitingPlayers.has(socketId);
+  async isPlayerInQueue(socketId: string): Promise<boolean> {
+    return (await getStore().hget(QUEUE_KEY, socketId)) !== null;
   }
 }
 
-export const matchmakingService = new MatchmakingService();
\ No newline at end of file
+export const matchmakingService = new MatchmakingService();
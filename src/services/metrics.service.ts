@@ -0,0 +1,240 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AnalyticsEvent } from '../models/types';
+import { logger } from '../utils/logger';
+
+export interface DateRange {
+  from: Date;
+  to: Date; // exclusive
+}
+
+type HourCounters = {
+  gamesStarted: number;
+  botGames: number;
+  gamesEnded: number;
+  totalDuration: number;
+  moves: number;
+  disconnects: number;
+  reconnects: number;
+};
+
+const MAX_RECORD_ATTEMPTS = 3;
+
+/**
+ * Persists analytics events as hourly aggregates and answers the metrics
+ * queries. Every event is recorded together with its id in one transaction,
+ * so an event delivered twice is only counted once.
+ */
+class MetricsService {
+  async recordEvent(event: AnalyticsEvent): Promise<boolean> {
+    // Events produced before ids were introduced fall back to a derived key
+    const eventId =
+      event.eventId ?? `${event.gameId}:${event.eventType}:${new Date(event.timestamp).getTime()}`;
+    const occurredAt = new Date(event.timestamp);
+    const bucket = this.startOfHour(occurredAt);
+    const counters = this.getCounters(event);
+    const opening = this.getOpening(event);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.processedEvent.create({
+            data: { id: eventId, eventType: event.eventType, gameId: event.gameId, occurredAt },
+          });
+
+          await tx.analyticsHour.upsert({
+            where: { bucket },
+            create: { bucket, ...counters },
+            update: Object.fromEntries(
+              Object.entries(counters)
+                .filter(([, value]) => value !== 0)
+                .map(([field, value]) => [field, { increment: value }])
+            ),
+          });
+
+          if (opening) {
+            const key = { bucket, variant: opening.variant, column: opening.column };
+            await tx.openingStat.upsert({
+              where: { bucket_variant_column: key },
+              create: { ...key, count: 1 },
+              update: { count: { increment: 1 } },
+            });
+          }
+        });
+        return true;
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        // A unique violation means either the event was already recorded or
+        // another consumer created the same aggregate row first
+        const processed = await prisma.processedEvent.findUnique({ where: { id: eventId } });
+        if (processed) {
+          logger.debug(`Skipping already recorded analytics event ${eventId}`);
+          return false;
+        }
+        if (attempt >= MAX_RECORD_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async getGamesPerDay(range: DateRange): Promise<{ date: string; games: number }[]> {
+    const perDay = new Map<string, number>();
+    for (const hour of await this.getHours(range)) {
+      const date = hour.bucket.toISOString().split('T')[0];
+      perDay.set(date, (perDay.get(date) || 0) + hour.gamesStarted);
+    }
+    return Array.from(perDay, ([date, games]) => ({ date, games }));
+  }
+
+  /**
+   * Games started in each hour of the day (UTC), summed over the range
+   */
+  async getGamesPerHour(range: DateRange): Promise<{ hour: number; games: number }[]> {
+    const perHour = Array.from({ length: 24 }, (_, hour) => ({ hour, games: 0 }));
+    for (const hour of await this.getHours(range)) {
+      perHour[hour.bucket.getUTCHours()].games += hour.gamesStarted;
+    }
+    return perHour;
+  }
+
+  async getAverageDuration(range: DateRange): Promise<{ games: number; averageSeconds: number }> {
+    const totals = this.sum(await this.getHours(range));
+    return {
+      games: totals.gamesEnded,
+      averageSeconds:
+        totals.gamesEnded > 0 ? Math.round(totals.totalDuration / totals.gamesEnded) : 0,
+    };
+  }
+
+  async getBotShare(
+    range: DateRange
+  ): Promise<{ games: number; botGames: number; humanGames: number; botShare: number }> {
+    const totals = this.sum(await this.getHours(range));
+    return {
+      games: totals.gamesStarted,
+      botGames: totals.botGames,
+      humanGames: totals.gamesStarted - totals.botGames,
+      botShare: this.ratio(totals.botGames, totals.gamesStarted),
+    };
+  }
+
+  async getDisconnectRates(range: DateRange): Promise<{
+    games: number;
+    disconnects: number;
+    reconnects: number;
+    disconnectsPerGame: number;
+    reconnectRate: number;
+  }> {
+    const totals = this.sum(await this.getHours(range));
+    return {
+      games: totals.gamesStarted,
+      disconnects: totals.disconnects,
+      reconnects: totals.reconnects,
+      disconnectsPerGame: this.ratio(totals.disconnects, totals.gamesStarted),
+      reconnectRate: this.ratio(totals.reconnects, totals.disconnects),
+    };
+  }
+
+  /**
+   * How often each column was chosen as the first move of a game
+   */
+  async getOpeningPopularity(
+    range: DateRange,
+    variant: string
+  ): Promise<{ column: number; games: number; share: number }[]> {
+    const groups = await prisma.openingStat.groupBy({
+      by: ['column'],
+      where: { variant, bucket: { gte: range.from, lt: range.to } },
+      _sum: { count: true },
+      orderBy: { column: 'asc' },
+    });
+
+    const total = groups.reduce(
+      (sum: number, group: { _sum: { count: number | null } }) => sum + (group._sum.count ?? 0),
+      0
+    );
+    return groups.map((group: { column: number; _sum: { count: number | null } }) => ({
+      column: group.column,
+      games: group._sum.count ?? 0,
+      share: this.ratio(group._sum.count ?? 0, total),
+    }));
+  }
+
+  private getCounters(event: AnalyticsEvent): HourCounters {
+    const counters = this.emptyCounters();
+
+    switch (event.eventType) {
+      case 'game_started':
+        counters.gamesStarted = 1;
+        counters.botGames = event.data.isVsBot ? 1 : 0;
+        break;
+      case 'game_ended':
+        counters.gamesEnded = 1;
+        counters.totalDuration = event.data.duration ?? 0;
+        break;
+      case 'move_made':
+        counters.moves = 1;
+        break;
+      case 'player_disconnected':
+        counters.disconnects = 1;
+        break;
+      case 'player_reconnected':
+        counters.reconnects = 1;
+        break;
+    }
+    return counters;
+  }
+
+  private getOpening(event: AnalyticsEvent): { variant: string; column: number } | null {
+    if (event.eventType !== 'move_made' || event.data.ply !== 1 || !event.data.movePosition) {
+      return null;
+    }
+    return {
+      variant: event.data.variant ?? 'standard',
+      column: event.data.movePosition.col,
+    };
+  }
+
+  private async getHours(range: DateRange): Promise<({ bucket: Date } & HourCounters)[]> {
+    return prisma.analyticsHour.findMany({
+      where: { bucket: { gte: range.from, lt: range.to } },
+      orderBy: { bucket: 'asc' },
+    });
+  }
+
+  private sum(hours: HourCounters[]): HourCounters {
+    const totals = this.emptyCounters();
+    for (const hour of hours) {
+      for (const field of Object.keys(totals) as (keyof HourCounters)[]) {
+        totals[field] += hour[field];
+      }
+    }
+    return totals;
+  }
+
+  private emptyCounters(): HourCounters {
+    return {
+      gamesStarted: 0,
+      botGames: 0,
+      gamesEnded: 0,
+      totalDuration: 0,
+      moves: 0,
+      disconnects: 0,
+      reconnects: 0,
+    };
+  }
+
+  private ratio(part: number, whole: number): number {
+    return whole > 0 ? Number((part / whole).toFixed(4)) : 0;
+  }
+
+  private startOfHour(date: Date): Date {
+    const bucket = new Date(date);
+    bucket.setUTCMinutes(0, 0, 0);
+    return bucket;
+  }
+}
+
+export const metricsService = new MetricsService();
@@ -0,0 +1,206 @@
+import { prisma } from '../config/database';
+import { CellValue, GameVariant, PlayerSide } from '../models/types';
+import { gameService } from './game.service';
+import { historyService } from './history.service';
+import { canPlay, emptyPosition, getRules, isFull, isWinningMove, play, toBoard } from '../engine/bitboard';
+
+/**
+ * Text notation for games, modelled on chess PGN: `[Name "value"]` header
+ * lines, a blank line, then numbered move pairs of 1-based columns ending in
+ * the result token, e.g.
+ *
+ *   [Variant "standard"]
+ *   [Player1 "alice"]
+ *   [Player2 "bob"]
+ *   [Date "2026.10.19"]
+ *   [Result "1-0"]
+ *
+ *   1. 4 4 2. 3 3 3. 5 2 4. 6 1-0
+ */
+
+export type NotationResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface ParsedGame {
+  headers: Record<string, string>;
+  variant: GameVariant;
+  moves: number[]; // 0-based columns
+  result: NotationResult;
+  winner: PlayerSide | null; // decided on the board, not by resignation or time
+  finished: boolean; // the last move won or filled the board
+  board: CellValue[][];
+  snapshots: CellValue[][][];
+}
+
+const RESULTS: NotationResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const HEADER_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+
+class NotationService {
+  /**
+   * Writes a finished game in the notation, or returns null for an unknown
+   * game
+   */
+  async exportGame(gameId: string): Promise<string | null> {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      include: {
+        player1: { select: { username: true } },
+        player2: { select: { username: true } },
+      },
+    });
+    if (!game) return null;
+
+    const moves = await historyService.getMoves(gameId);
+    const botName = `Bot (${game.botDifficulty ?? 'unknown'})`;
+    const result: NotationResult = !game.winnerId
+      ? '1/2-1/2'
+      : game.winnerId === game.player1Id
+        ? '1-0'
+        : '0-1';
+
+    const headers: [string, string][] = [
+      ['Variant', game.variant],
+      ['Player1', game.player1?.username ?? botName],
+      ['Player2', game.player2?.username ?? botName],
+      ['Date', (game.completedAt ?? game.createdAt).toISOString().slice(0, 10).replace(/-/g, '.')],
+      ['Result', result],
+      ['Termination', game.result],
+      ['GameId', game.id],
+    ];
+
+    return (
+      headers.map(([name, value]) => `[${name} "${this.escape(value)}"]`).join('\n') +
+      '\n\n' +
+      this.formatMoves(moves.map((move) => move.column), result) +
+      '\n'
+    );
+  }
+
+  /**
+   * Parses a game and replays it with the rules engine GameService.makeMove
+   * plays by
+   */
+  parse(text: string): { success: boolean; game?: ParsedGame; error?: string } {
+    const headers: Record<string, string> = {};
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    let index = 0;
+
+    for (; index < lines.length; index++) {
+      const line = lines[index].trim();
+      if (!line) continue;
+
+      const match = HEADER_PATTERN.exec(line);
+      if (!match) break;
+      headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    }
+
+    const variant = gameService.getVariant(headers.Variant ?? 'standard');
+    if (!variant) {
+      return { success: false, error: `Unknown variant "${headers.Variant}"` };
+    }
+
+    const tokens = lines.slice(index).join(' ').split(/\s+/).filter(Boolean);
+    const moves: number[] = [];
+    let movetextResult: NotationResult | null = null;
+
+    for (const [position, token] of tokens.entries()) {
+      if (/^\d+\.$/.test(token)) continue;
+
+      if (RESULTS.includes(token as NotationResult)) {
+        if (position !== tokens.length - 1) {
+          return { success: false, error: 'The result must be the last token' };
+        }
+        movetextResult = token as NotationResult;
+        continue;
+      }
+
+      const column = /^\d+$/.test(token) ? Number(token) : NaN;
+      if (!(column >= 1 && column <= variant.cols)) {
+        return { success: false, error: `Invalid move "${token}"` };
+      }
+      moves.push(column - 1);
+    }
+
+    const headerResult = headers.Result as NotationResult | undefined;
+    if (headerResult !== undefined && !RESULTS.includes(headerResult)) {
+      return { success: false, error: `Invalid result "${headerResult}"` };
+    }
+    if (headerResult && movetextResult && headerResult !== movetextResult) {
+      return { success: false, error: 'Result header does not match the move text' };
+    }
+
+    const replay = this.replay(moves, variant);
+    if (replay.error) {
+      return { success: false, error: replay.error };
+    }
+
+    // A result decided on the board must be the one reported; games that
+    // stopped early may have been resigned, drawn by agreement or timed out
+    const result = headerResult ?? movetextResult ?? '*';
+    const boardResult = replay.winner
+      ? replay.winner === 'player1'
+        ? '1-0'
+        : '0-1'
+      : replay.finished
+        ? '1/2-1/2'
+        : null;
+    if (boardResult && result !== boardResult) {
+      return { success: false, error: `The moves end in ${boardResult}, not ${result}` };
+    }
+
+    return {
+      success: true,
+      game: {
+        headers,
+        variant,
+        moves,
+        result,
+        winner: replay.winner,
+        finished: replay.finished,
+        board: replay.snapshots[replay.snapshots.length - 1],
+        snapshots: replay.snapshots,
+      },
+    };
+  }
+
+  private replay(
+    moves: number[],
+    variant: GameVariant
+  ): { snapshots: CellValue[][][]; winner: PlayerSide | null; finished: boolean; error?: string } {
+    let position = emptyPosition(getRules(variant));
+    const snapshots = [toBoard(position)];
+    let winner: PlayerSide | null = null;
+
+    for (const [ply, column] of moves.entries()) {
+      if (winner || isFull(position)) {
+        return { snapshots, winner, finished: true, error: `Move ${ply + 1} is played after the game ended` };
+      }
+      if (!canPlay(position, column)) {
+        return { snapshots, winner, finished: false, error: `Column ${column + 1} is full at move ${ply + 1}` };
+      }
+
+      if (isWinningMove(position, column)) {
+        winner = position.toMove;
+      }
+      position = play(position, column);
+      snapshots.push(toBoard(position));
+    }
+
+    return { snapshots, winner, finished: !!winner || isFull(position) };
+  }
+
+  private formatMoves(columns: number[], result: NotationResult): string {
+    const parts: string[] = [];
+    for (let i = 0; i < columns.length; i += 2) {
+      const pair = columns.slice(i, i + 2).map((column) => column + 1);
+      parts.push(`${i / 2 + 1}. ${pair.join(' ')}`);
+    }
+    parts.push(result);
+    return parts.join(' ');
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[\\"]/g, '\\$&');
+  }
+}
+
+export const notationService = new NotationService();
@@ -0,0 +1,279 @@
+import { Game, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+import { BotDifficulty, Player } from '../models/types';
+import { logger } from '../utils/logger';
+
+export type PlayerGameResult = 'win' | 'loss' | 'draw';
+
+export interface MatchHistoryEntry {
+  gameId: string;
+  opponent: string;
+  result: PlayerGameResult;
+  duration: number | null;
+  isVsBot: boolean;
+  botDifficulty: string | null;
+  variant: string;
+  playedAt: Date;
+}
+
+export interface RecordSummary {
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface StreakSummary {
+  current: { result: PlayerGameResult | null; length: number };
+  longestWin: number;
+  longestLoss: number;
+}
+
+const MAX_BOT_USERNAME_ATTEMPTS = 10;
+
+type FinishedGame = Pick<Game, 'winnerId' | 'isVsBot' | 'botDifficulty' | 'completedAt' | 'createdAt'>;
+
+class PlayerService {
+  private botAccounts: Map<BotDifficulty, { id: string; username: string }> = new Map();
+
+  /**
+   * Creates the player account of every bot difficulty that does not have
+   * one yet. Run at startup.
+   */
+  async ensureBotAccounts(): Promise<void> {
+    const difficulties = Object.keys(config.bot.difficulties) as BotDifficulty[];
+    for (const difficulty of difficulties) {
+      await this.getBotPlayer(difficulty);
+    }
+    logger.info(`Bot accounts ready: ${difficulties.join(', ')}`);
+  }
+
+  /**
+   * The bot of the given difficulty as a game participant, backed by its
+   * player account so its results are recorded like anyone else's
+   */
+  async getBotPlayer(difficulty: BotDifficulty): Promise<Player> {
+    let account = this.botAccounts.get(difficulty);
+    if (!account) {
+      account =
+        (await prisma.player.findUnique({
+          where: { botDifficulty: difficulty },
+          select: { id: true, username: true },
+        })) ?? (await this.createBotAccount(difficulty));
+      this.botAccounts.set(difficulty, account);
+    }
+
+    return { id: account.id, username: account.username, socketId: 'bot', isBot: true };
+  }
+
+  /**
+   * Creates the bot's account under its configured username. Accounts made
+   * before bot names were reserved may hold that name already; the bot then
+   * takes the name with a number appended instead.
+   */
+  private async createBotAccount(
+    difficulty: BotDifficulty
+  ): Promise<{ id: string; username: string }> {
+    const baseName = config.bot.difficulties[difficulty].username;
+
+    for (let attempt = 1; attempt <= MAX_BOT_USERNAME_ATTEMPTS; attempt++) {
+      const username = attempt === 1 ? baseName : `${baseName}${attempt}`;
+      try {
+        return await prisma.player.create({
+          data: { username, isBot: true, botDifficulty: difficulty },
+          select: { id: true, username: true },
+        });
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        // Another instance may have created the account first
+        const existing = await prisma.player.findUnique({
+          where: { botDifficulty: difficulty },
+          select: { id: true, username: true },
+        });
+        if (existing) return existing;
+
+        logger.warn(`Username ${username} is taken by a player; the ${difficulty} bot needs another`);
+      }
+    }
+
+    throw new Error(`No free username for the ${difficulty} bot account`);
+  }
+
+  /**
+   * Games the player took part in on either side, most recent first
+   */
+  async getMatchHistory(
+    playerId: string,
+    page: number,
+    pageSize: number
+  ): Promise<{ games: MatchHistoryEntry[]; total: number }> {
+    const where = { OR: [{ player1Id: playerId }, { player2Id: playerId }] };
+
+    const [games, total] = await Promise.all([
+      prisma.game.findMany({
+        where,
+        include: {
+          player1: { select: { username: true } },
+          player2: { select: { username: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.game.count({ where }),
+    ]);
+
+    return {
+      games: games.map((game) => ({
+        gameId: game.id,
+        opponent:
+          game.player1Id === playerId
+            ? game.player2?.username ?? 'Bot'
+            : game.player1?.username ?? 'Bot',
+        result: this.getResult(game, playerId),
+        duration: game.duration,
+        isVsBot: game.isVsBot,
+        botDifficulty: game.botDifficulty,
+        variant: game.variant,
+        playedAt: game.completedAt ?? game.createdAt,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Streaks and separate records against humans, against the bots overall
+   * and against each bot difficulty
+   */
+  async getProfileStats(playerId: string): Promise<{
+    streaks: StreakSummary;
+    vsHuman: RecordSummary;
+    vsBot: RecordSummary;
+    vsBots: Partial<Record<BotDifficulty, RecordSummary>>;
+  }> {
+    const games: FinishedGame[] = await prisma.game.findMany({
+      where: { OR: [{ player1Id: playerId }, { player2Id: playerId }] },
+      select: {
+        winnerId: true,
+        isVsBot: true,
+        botDifficulty: true,
+        completedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const vsHuman = this.emptyRecord();
+    const vsBot = this.emptyRecord();
+    const vsBots: Partial<Record<BotDifficulty, RecordSummary>> = {};
+    const streaks: StreakSummary = {
+      current: { result: null, length: 0 },
+      longestWin: 0,
+      longestLoss: 0,
+    };
+
+    for (const game of games) {
+      const result = this.getResult(game, playerId);
+      this.addResult(game.isVsBot ? vsBot : vsHuman, result);
+      if (game.isVsBot && game.botDifficulty) {
+        const difficulty = game.botDifficulty as BotDifficulty;
+        vsBots[difficulty] = vsBots[difficulty] ?? this.emptyRecord();
+        this.addResult(vsBots[difficulty]!, result);
+      }
+
+      if (streaks.current.result === result) {
+        streaks.current.length++;
+      } else {
+        streaks.current = { result, length: 1 };
+      }
+      if (result === 'win') {
+        streaks.longestWin = Math.max(streaks.longestWin, streaks.current.length);
+      } else if (result === 'loss') {
+        streaks.longestLoss = Math.max(streaks.longestLoss, streaks.current.length);
+      }
+    }
+
+    return { streaks, vsHuman, vsBot, vsBots };
+  }
+
+  /**
+   * Average engine accuracy over the player's annotated games
+   */
+  async getAccuracy(playerId: string): Promise<{ average: number | null; games: number }> {
+    const [asPlayer1, asPlayer2] = await Promise.all([
+      prisma.game.aggregate({
+        where: { player1Id: playerId, player1Accuracy: { not: null } },
+        _avg: { player1Accuracy: true },
+        _count: { player1Accuracy: true },
+      }),
+      prisma.game.aggregate({
+        where: { player2Id: playerId, player2Accuracy: { not: null } },
+        _avg: { player2Accuracy: true },
+        _count: { player2Accuracy: true },
+      }),
+    ]);
+
+    const games1 = asPlayer1._count.player1Accuracy;
+    const games2 = asPlayer2._count.player2Accuracy;
+    const games = games1 + games2;
+    if (games === 0) {
+      return { average: null, games: 0 };
+    }
+
+    const total =
+      (asPlayer1._avg.player1Accuracy ?? 0) * games1 + (asPlayer2._avg.player2Accuracy ?? 0) * games2;
+    return { average: Math.round((total / games) * 10) / 10, games };
+  }
+
+  async getHeadToHead(
+    playerId: string,
+    opponentId: string
+  ): Promise<RecordSummary & { lastPlayedAt: Date | null }> {
+    const games: FinishedGame[] = await prisma.game.findMany({
+      where: {
+        OR: [
+          { player1Id: playerId, player2Id: opponentId },
+          { player1Id: opponentId, player2Id: playerId },
+        ],
+      },
+      select: {
+        winnerId: true,
+        isVsBot: true,
+        botDifficulty: true,
+        completedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const record = this.emptyRecord();
+    for (const game of games) {
+      this.addResult(record, this.getResult(game, playerId));
+    }
+
+    const last = games[games.length - 1];
+    return { ...record, lastPlayedAt: last ? last.completedAt ?? last.createdAt : null };
+  }
+
+  private getResult(game: Pick<Game, 'winnerId'>, playerId: string): PlayerGameResult {
+    if (!game.winnerId) return 'draw';
+    return game.winnerId === playerId ? 'win' : 'loss';
+  }
+
+  private addResult(record: RecordSummary, result: PlayerGameResult): void {
+    record.games++;
+    if (result === 'win') record.wins++;
+    else if (result === 'loss') record.losses++;
+    else record.draws++;
+  }
+
+  private emptyRecord(): RecordSummary {
+    return { games: 0, wins: 0, losses: 0, draws: 0 };
+  }
+}
+
+export const playerService = new PlayerService();
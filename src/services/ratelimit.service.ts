@@ -0,0 +1,124 @@
+import { getStore, withLock } from '../config/store';
+import { config } from '../config/env';
+import { ClientEvent } from '../models/protocol';
+import { clusterService } from './cluster.service';
+import { logger } from '../utils/logger';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+/**
+ * Request budgets and connection limits shared by every instance. Budgets
+ * are fixed windows counted in the shared store; live connections are kept
+ * per user and per IP together with the instance holding them, so the
+ * connections of an instance that died stop counting once its heartbeat
+ * lapses.
+ */
+class RateLimitService {
+  /**
+   * Counts one request against the subject's budget under the named rule
+   */
+  async consume(name: string, subject: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const window = Math.floor(now / rule.windowMs);
+    const count = await getStore().incr(`ratelimit:${name}:${subject}:${window}`, rule.windowMs);
+
+    if (count > rule.limit) {
+      return { allowed: false, retryAfterMs: (window + 1) * rule.windowMs - now };
+    }
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /**
+   * Counts a socket event against the connection's and the IP's budgets,
+   * and the event's own budget where it has one
+   */
+  async consumeSocketEvent(socketId: string, ip: string, event: ClientEvent): Promise<RateLimitResult> {
+    const limits = config.rateLimit.socket;
+    const checks: [string, string, RateLimitRule][] = [
+      ['socket', socketId, limits.perConnection],
+      ['socket-ip', ip, limits.perIp],
+    ];
+    const eventRule = limits.events[event];
+    if (eventRule) {
+      checks.push([`event:${event}`, socketId, eventRule]);
+    }
+
+    for (const [name, subject, rule] of checks) {
+      const result = await this.consume(name, subject, rule);
+      if (!result.allowed) {
+        logger.warn(`Rate limit ${name} exceeded by ${subject} (${event})`);
+        return result;
+      }
+    }
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /**
+   * Registers a new socket unless its user or IP already has the maximum
+   * number of live connections. Returns an error message when refused.
+   *
+   * Both counts are checked and updated under locks on the user and on the
+   * IP, so concurrent handshakes cannot exceed either limit. The locks are
+   * always taken user first, so handshakes never wait on each other in a
+   * cycle.
+   */
+  async openConnection(socketId: string, userId: string, ip: string): Promise<string | null> {
+    const limits = config.rateLimit.socket;
+    const userKey = `connections:user:${userId}`;
+    const ipKey = `connections:ip:${ip}`;
+
+    return withLock(`lock:${userKey}`, () =>
+      withLock(`lock:${ipKey}`, async () => {
+        if ((await this.countConnections(userKey)) >= limits.maxConnectionsPerUser) {
+          logger.warn(`Refused connection ${socketId}: user ${userId} has too many connections`);
+          return 'Too many connections for this account';
+        }
+        if ((await this.countConnections(ipKey)) >= limits.maxConnectionsPerIp) {
+          logger.warn(`Refused connection ${socketId}: ${ip} has too many connections`);
+          return 'Too many connections from this address';
+        }
+
+        await getStore().hset(userKey, socketId, clusterService.instanceId);
+        await getStore().hset(ipKey, socketId, clusterService.instanceId);
+        return null;
+      })
+    );
+  }
+
+  async closeConnection(socketId: string, userId: string, ip: string): Promise<void> {
+    await getStore().hdel(`connections:user:${userId}`, socketId);
+    await getStore().hdel(`connections:ip:${ip}`, socketId);
+  }
+
+  /**
+   * Live connections under the key, forgetting those of dead instances
+   */
+  private async countConnections(key: string): Promise<number> {
+    const connections = await getStore().hgetall(key);
+    const alive: Map<string, boolean> = new Map();
+    let count = 0;
+
+    for (const [socketId, instanceId] of Object.entries(connections)) {
+      if (!alive.has(instanceId)) {
+        alive.set(instanceId, await clusterService.isInstanceAlive(instanceId));
+      }
+
+      if (alive.get(instanceId)) {
+        count++;
+      } else {
+        await getStore().hdel(key, socketId);
+      }
+    }
+    return count;
+  }
+}
+
+export const rateLimitService = new RateLimitService();
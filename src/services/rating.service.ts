@@ -0,0 +1,144 @@
+import { Prisma } from '@prisma/client';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+// Conversion factor between the Glicko and Glicko-2 rating scales
+const GLICKO2_SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export interface Rating {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+}
+
+class RatingService {
+  /**
+   * Applies a Glicko-2 update for a single game, treating the game as its own
+   * rating period. `score` is 1 for a win, 0.5 for a draw and 0 for a loss.
+   */
+  calculate(player: Rating, opponent: Rating, score: number): Rating {
+    const mu = (player.rating - config.rating.initial) / GLICKO2_SCALE;
+    const phi = player.ratingDeviation / GLICKO2_SCALE;
+    const muOpponent = (opponent.rating - config.rating.initial) / GLICKO2_SCALE;
+    const phiOpponent = opponent.ratingDeviation / GLICKO2_SCALE;
+
+    const g = 1 / Math.sqrt(1 + (3 * phiOpponent * phiOpponent) / (Math.PI * Math.PI));
+    const expected = 1 / (1 + Math.exp(-g * (mu - muOpponent)));
+    const variance = 1 / (g * g * expected * (1 - expected));
+    const delta = variance * g * (score - expected);
+
+    const volatility = this.updateVolatility(phi, player.volatility, variance, delta);
+
+    const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+    const newMu = mu + newPhi * newPhi * g * (score - expected);
+
+    return {
+      rating: newMu * GLICKO2_SCALE + config.rating.initial,
+      ratingDeviation: Math.min(newPhi * GLICKO2_SCALE, config.rating.initialDeviation),
+      volatility,
+    };
+  }
+
+  /**
+   * Updates both players' ratings after a human-vs-human game and stores a
+   * history row for each of them, inside the caller's transaction
+   */
+  async recordGame(
+    tx: Prisma.TransactionClient,
+    gameId: string,
+    player1Id: string,
+    player2Id: string,
+    player1Score: number
+  ): Promise<void> {
+    const player1 = await tx.player.findUnique({ where: { id: player1Id } });
+    const player2 = await tx.player.findUnique({ where: { id: player2Id } });
+
+    if (!player1 || !player2) {
+      logger.warn(`Skipping rating update for game ${gameId}: player not found`);
+      return;
+    }
+
+    const updated1 = this.calculate(player1, player2, player1Score);
+    const updated2 = this.calculate(player2, player1, 1 - player1Score);
+
+    await tx.player.update({ where: { id: player1.id }, data: updated1 });
+    await tx.player.update({ where: { id: player2.id }, data: updated2 });
+    await tx.ratingHistory.create({
+      data: {
+        playerId: player1.id,
+        gameId,
+        ...updated1,
+        change: updated1.rating - player1.rating,
+      },
+    });
+    await tx.ratingHistory.create({
+      data: {
+        playerId: player2.id,
+        gameId,
+        ...updated2,
+        change: updated2.rating - player2.rating,
+      },
+    });
+
+    logger.info(
+      `Ratings updated for game ${gameId}: ${player1.username} ${Math.round(updated1.rating)}, ` +
+        `${player2.username} ${Math.round(updated2.rating)}`
+    );
+  }
+
+  /**
+   * Rating difference a waiting player accepts, widening with time in queue
+   */
+  getRatingWindow(waitedMs: number): number {
+    const window =
+      config.game.ratingWindowBase + (waitedMs / 1000) * config.game.ratingWindowGrowth;
+    return Math.min(window, config.game.ratingWindowMax);
+  }
+
+  // Iterative volatility solve from step 5 of the Glicko-2 paper (Illinois method)
+  private updateVolatility(
+    phi: number,
+    sigma: number,
+    variance: number,
+    delta: number
+  ): number {
+    const tau = config.rating.tau;
+    const a = Math.log(sigma * sigma);
+    const f = (x: number): number => {
+      const ex = Math.exp(x);
+      const d = phi * phi + variance + ex;
+      return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (tau * tau);
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + variance) {
+      B = Math.log(delta * delta - phi * phi - variance);
+    } else {
+      let k = 1;
+      while (f(a - k * tau) < 0) k++;
+      B = a - k * tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+      const C = A + ((A - B) * fA) / (fB - fA);
+      const fC = f(C);
+      if (fC * fB <= 0) {
+        A = B;
+        fA = fB;
+      } else {
+        fA = fA / 2;
+      }
+      B = C;
+      fB = fC;
+    }
+
+    return Math.exp(A / 2);
+  }
+}
+
+export const ratingService = new RatingService();
@@ -0,0 +1,80 @@
+import { GameSeries, GameState } from '../models/types';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+interface RematchWindow {
+  closesAt: number;
+  requestedBy: string | null; // player id of a pending request
+}
+
+class RematchService {
+  // Finished games that can still be rematched
+  private windows: Map<string, RematchWindow> = new Map();
+
+  /**
+   * Adds a finished game's result to the series it belongs to, starting a
+   * new series for a game that was not a rematch
+   */
+  recordResult(game: GameState, winnerId?: string, isDraw?: boolean): GameSeries {
+    const series: GameSeries = game.series
+      ? { ...game.series, scores: { ...game.series.scores } }
+      : { id: game.id, gamesPlayed: 0, scores: {}, draws: 0 };
+
+    for (const player of [game.player1, game.player2]) {
+      if (player && series.scores[player.id] === undefined) {
+        series.scores[player.id] = 0;
+      }
+    }
+
+    series.gamesPlayed++;
+    if (isDraw) {
+      series.draws++;
+    } else if (winnerId) {
+      series.scores[winnerId] = (series.scores[winnerId] ?? 0) + 1;
+    }
+
+    game.series = series;
+    return series;
+  }
+
+  openWindow(gameId: string): void {
+    this.windows.set(gameId, {
+      closesAt: Date.now() + config.game.rematchWindow,
+      requestedBy: null,
+    });
+  }
+
+  isOpen(gameId: string): boolean {
+    const window = this.windows.get(gameId);
+    return !!window && window.closesAt > Date.now();
+  }
+
+  getRequester(gameId: string): string | null {
+    return this.isOpen(gameId) ? this.windows.get(gameId)!.requestedBy : null;
+  }
+
+  /**
+   * Records a player's request. Returns false if they already have one pending.
+   */
+  request(gameId: string, playerId: string): boolean {
+    const window = this.windows.get(gameId);
+    if (!window || !this.isOpen(gameId) || window.requestedBy === playerId) {
+      return false;
+    }
+
+    window.requestedBy = playerId;
+    logger.info(`Rematch of game ${gameId} requested by player ${playerId}`);
+    return true;
+  }
+
+  /**
+   * Closes the window and returns whether a request was still pending
+   */
+  closeWindow(gameId: string): boolean {
+    const window = this.windows.get(gameId);
+    this.windows.delete(gameId);
+    return !!window?.requestedBy;
+  }
+}
+
+export const rematchService = new RematchService();
@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../config/database';
+import { GameState, Player } from '../models/types';
+import { resultService } from './result.service';
+
+// Runs against the database in TEST_DATABASE_URL, which it writes to. The
+// client reads DATABASE_URL, so it is pointed there before the imports run.
+const databaseUrl = vi.hoisted(() => {
+  const url = process.env.TEST_DATABASE_URL;
+  if (url) process.env.DATABASE_URL = url;
+  return url;
+});
+
+function finishedGame(player1: Player, player2: Player): GameState {
+  const now = new Date();
+  return {
+    id: randomUUID(),
+    variant: { name: 'standard', rows: 6, cols: 7, connect: 4 },
+    board: Array.from({ length: 6 }, () => Array(7).fill('empty')),
+    moves: [],
+    player1,
+    player2,
+    currentTurn: 'player2',
+    status: 'completed',
+    winner: player1.id,
+    endReason: 'win',
+    createdAt: now,
+    lastMoveAt: now,
+    disconnectedPlayer: null,
+    disconnectDeadline: null,
+    disconnectTimeout: null,
+    clock: {
+      timeControl: { name: 'rapid', initialMs: 600000, incrementMs: 5000, perMoveMs: null },
+      remainingMs: { player1: 600000, player2: 600000 },
+      turnStartedAt: null,
+    },
+    clockTimeout: null,
+    botDifficulty: null,
+    isPrivate: false,
+    joinCode: null,
+    series: null,
+    drawOffers: [],
+    pendingDrawOffer: null,
+    tournamentId: null,
+    hintsUsed: {},
+  };
+}
+
+describe.skipIf(!databaseUrl)('recordResult', () => {
+  const players: Player[] = [];
+  const games: string[] = [];
+
+  beforeAll(async () => {
+    for (const name of ['first', 'second']) {
+      const row = await prisma.player.create({
+        data: { username: `test-${name}-${randomUUID().slice(0, 8)}` },
+      });
+      players.push({ id: row.id, username: row.username, socketId: '', isBot: false });
+    }
+  });
+
+  afterAll(async () => {
+    const playerIds = players.map((player) => player.id);
+    await prisma.ratingHistory.deleteMany({ where: { playerId: { in: playerIds } } });
+    await prisma.seasonStat.deleteMany({ where: { playerId: { in: playerIds } } });
+    await prisma.playerStatHour.deleteMany({ where: { playerId: { in: playerIds } } });
+    await prisma.game.deleteMany({ where: { id: { in: games } } });
+    await prisma.player.deleteMany({ where: { id: { in: playerIds } } });
+    await prisma.$disconnect();
+  });
+
+  it('records a game that ends twice at the same time only once', async () => {
+    const game = finishedGame(players[0], players[1]);
+    games.push(game.id);
+
+    const recorded = await Promise.all([
+      resultService.recordResult(game, players[0].id),
+      resultService.recordResult(game, players[0].id),
+    ]);
+
+    expect(recorded.sort()).toEqual([false, true]);
+    expect(await prisma.game.count({ where: { id: game.id } })).toBe(1);
+    expect(await prisma.ratingHistory.count({ where: { gameId: game.id } })).toBe(2);
+
+    const [winner, loser] = await Promise.all(
+      players.map((player) => prisma.player.findUniqueOrThrow({ where: { id: player.id } }))
+    );
+    expect(winner).toMatchObject({ wins: 1, losses: 0 });
+    expect(loser).toMatchObject({ wins: 0, losses: 1 });
+
+    const seasonStats = await prisma.seasonStat.findMany({
+      where: { playerId: { in: players.map((player) => player.id) } },
+    });
+    expect(seasonStats.map((stat) => stat.wins + stat.losses)).toEqual([1, 1]);
+  });
+
+  it('does not count a game again when it is recorded later', async () => {
+    const game = finishedGame(players[0], players[1]);
+    games.push(game.id);
+
+    expect(await resultService.recordResult(game, players[0].id)).toBe(true);
+    expect(await resultService.recordResult(game, players[0].id)).toBe(false);
+
+    const winner = await prisma.player.findUniqueOrThrow({ where: { id: players[0].id } });
+    expect(winner.wins).toBe(2);
+  });
+});
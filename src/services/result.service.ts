@@ -0,0 +1,100 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { GameResult, GameState } from '../models/types';
+import { ratingService } from './rating.service';
+import { seasonService } from './season.service';
+import { logger } from '../utils/logger';
+
+const MAX_RECORD_ATTEMPTS = 3;
+
+/**
+ * Stores the outcome of finished games. The game row, the players' records,
+ * the season stats and the ratings are written in one transaction that
+ * starts by creating the game row, so a game that ends twice (a winning
+ * move racing the disconnect timer, or two instances) is only counted once.
+ */
+class ResultService {
+  /**
+   * Records a finished game. Returns false when the game had already been
+   * recorded.
+   */
+  async recordResult(game: GameState, winnerId?: string, isDraw?: boolean): Promise<boolean> {
+    const completedAt = new Date();
+    const result = this.getResult(game, winnerId, isDraw);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.game.create({
+            data: {
+              id: game.id,
+              player1Id: game.player1.id,
+              player2Id: game.player2?.id ?? null,
+              winnerId: winnerId || null,
+              status: game.status === 'forfeited' ? 'forfeited' : 'completed',
+              result,
+              board: JSON.stringify(game.board),
+              duration: Math.floor((completedAt.getTime() - game.createdAt.getTime()) / 1000),
+              isVsBot: this.isVsBot(game),
+              botDifficulty: game.botDifficulty,
+              variant: game.variant.name,
+              rows: game.variant.rows,
+              cols: game.variant.cols,
+              connect: game.variant.connect,
+              hintsUsed: Object.values(game.hintsUsed).reduce((a, b) => a + b, 0),
+              completedAt,
+            },
+          });
+
+          if (!isDraw && !winnerId) return;
+
+          // Bots have accounts too, so their records are kept the same way
+          for (const player of [game.player1, game.player2]) {
+            if (!player) continue;
+
+            const field = isDraw ? 'draws' : player.id === winnerId ? 'wins' : 'losses';
+            await tx.player.update({
+              where: { id: player.id },
+              data: { [field]: { increment: 1 } },
+            });
+          }
+
+          await seasonService.recordGame(tx, game, winnerId, isDraw);
+
+          // Update ratings for games between two humans
+          if (game.player2 && !this.isVsBot(game)) {
+            const player1Score = isDraw ? 0.5 : winnerId === game.player1.id ? 1 : 0;
+            await ratingService.recordGame(tx, game.id, game.player1.id, game.player2.id, player1Score);
+          }
+        });
+
+        logger.info(`Recorded result of game ${game.id}: ${result}`);
+        return true;
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        // A unique violation means either the game was already recorded or
+        // another game created the same stats row first
+        const existing = await prisma.game.findUnique({ where: { id: game.id } });
+        if (existing) {
+          logger.debug(`Skipping already recorded game ${game.id}`);
+          return false;
+        }
+        if (attempt >= MAX_RECORD_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  private getResult(game: GameState, winnerId?: string, isDraw?: boolean): GameResult {
+    if (game.endReason) return game.endReason;
+    return isDraw || !winnerId ? 'draw' : 'win';
+  }
+
+  private isVsBot(game: GameState): boolean {
+    return game.player1.isBot || !!game.player2?.isBot;
+  }
+}
+
+export const resultService = new ResultService();
@@ -0,0 +1,173 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { BotDifficulty, CellValue, ColumnAnalysis, PlayerSide } from '../models/types';
+import type { SearchName, SearchReply, SearchRequest, searches } from '../workers/search.worker';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+// Under ts-node the worker has to compile its TypeScript source as well
+const EXTENSION = path.extname(__filename);
+const WORKER_FILE = path.join(__dirname, '..', 'workers', `search.worker${EXTENSION}`);
+const WORKER_EXEC_ARGV =
+  EXTENSION === '.ts' ? [...process.execArgv, '--require', 'ts-node/register'] : process.execArgv;
+
+type SearchResult<N extends SearchName> = ReturnType<(typeof searches)[N]>;
+
+interface Job {
+  request: SearchRequest;
+  priority: boolean;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+}
+
+/**
+ * Runs engine searches on a pool of worker threads, at most
+ * `config.search.workers` at a time. Analyses requested by clients queue up
+ * to `config.search.maxQueued` deep and are refused beyond that; priority
+ * searches that live games wait on, such as bot moves, are always queued,
+ * ahead of the others.
+ */
+class SearchService {
+  private pool: PoolWorker[] = [];
+  private queue: Job[] = [];
+  private nextId = 1;
+
+  /**
+   * Picks the bot's move; live games wait on it, so it runs as a priority search
+   */
+  getBestMove(
+    board: CellValue[][],
+    botPiece: PlayerSide,
+    difficulty: BotDifficulty,
+    connect: number
+  ): Promise<number> {
+    return this.run('getBestMove', [board, botPiece, difficulty, connect], true);
+  }
+
+  /**
+   * Scores the position for the side to move as the bot sees it, as a
+   * priority search
+   */
+  evaluatePosition(
+    board: CellValue[][],
+    toMove: PlayerSide,
+    difficulty: BotDifficulty,
+    connect: number
+  ): Promise<number> {
+    return this.run('evaluatePosition', [board, toMove, difficulty, connect], true);
+  }
+
+  /**
+   * Scores every legal column of the position, or returns null when the
+   * pool is too busy to take the request
+   */
+  analyzeColumns(
+    board: CellValue[][],
+    toMove: PlayerSide,
+    connect: number,
+    timeBudgetMs: number,
+    priority = false
+  ): Promise<ColumnAnalysis[] | null> {
+    if (!priority && this.queue.filter((job) => !job.priority).length >= config.search.maxQueued) {
+      logger.warn('Refused analyzeColumns search: the search queue is full');
+      return Promise.resolve(null);
+    }
+    return this.run('analyzeColumns', [board, toMove, connect, timeBudgetMs], priority);
+  }
+
+  /**
+   * Stops the workers; searches still queued or running are rejected
+   */
+  async stop(): Promise<void> {
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('Search pool stopped'));
+    }
+    const pool = this.pool.splice(0);
+    for (const entry of pool) {
+      entry.job?.reject(new Error('Search pool stopped'));
+    }
+    await Promise.all(pool.map((entry) => entry.worker.terminate()));
+  }
+
+  private run<N extends SearchName>(
+    name: N,
+    args: SearchRequest<N>['args'],
+    priority: boolean
+  ): Promise<SearchResult<N>> {
+    return new Promise((resolve, reject) => {
+      const job: Job = {
+        request: { id: this.nextId++, name, args },
+        priority,
+        resolve: (result) => resolve(result as SearchResult<N>),
+        reject,
+      };
+
+      if (priority) {
+        const firstOrdinary = this.queue.findIndex((queued) => !queued.priority);
+        this.queue.splice(firstOrdinary === -1 ? this.queue.length : firstOrdinary, 0, job);
+      } else {
+        this.queue.push(job);
+      }
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let entry = this.pool.find((candidate) => candidate.job === null);
+      if (!entry) {
+        if (this.pool.length >= config.search.workers) return;
+        entry = this.startWorker();
+      }
+
+      const job = this.queue.shift()!;
+      entry.job = job;
+      entry.worker.postMessage(job.request);
+    }
+  }
+
+  private startWorker(): PoolWorker {
+    const entry: PoolWorker = {
+      worker: new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV }),
+      job: null,
+    };
+
+    entry.worker.on('message', (reply: SearchReply) => {
+      const job = entry.job;
+      entry.job = null;
+      if (job && job.request.id === reply.id) {
+        if ('error' in reply) {
+          job.reject(new Error(reply.error));
+        } else {
+          job.resolve(reply.result);
+        }
+      }
+      this.dispatch();
+    });
+
+    // A worker that crashed is replaced by the next dispatch
+    entry.worker.on('error', (error) => {
+      logger.error('Search worker failed:', error);
+      entry.job?.reject(error);
+      entry.job = null;
+    });
+    entry.worker.on('exit', () => {
+      const index = this.pool.indexOf(entry);
+      if (index !== -1) {
+        this.pool.splice(index, 1);
+        entry.job?.reject(new Error('Search worker exited'));
+        this.dispatch();
+      }
+    });
+
+    this.pool.push(entry);
+    return entry;
+  }
+}
+
+export const searchService = new SearchService();
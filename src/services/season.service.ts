@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+import { GameState } from '../models/types';
+import { logger } from '../utils/logger';
+
+export type LeaderboardMode = 'human' | 'bot';
+
+interface SeasonRow {
+  id: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * Keeps the per-season and hourly result counters behind the seasonal and
+ * rolling leaderboards. A season is created on demand when a game ends and
+ * none covers the current date.
+ */
+class SeasonService {
+  private current: SeasonRow | null = null;
+
+  /**
+   * The season covering the date, created if there is none. Callers inside
+   * a transaction pass its client so the season is read and created there.
+   */
+  async getCurrentSeason(
+    now: Date = new Date(),
+    client: Prisma.TransactionClient = prisma
+  ): Promise<SeasonRow> {
+    if (this.current && this.current.startsAt <= now && now < this.current.endsAt) {
+      return this.current;
+    }
+
+    const existing: SeasonRow | null = await client.season.findFirst({
+      where: { startsAt: { lte: now }, endsAt: { gt: now } },
+      orderBy: { startsAt: 'desc' },
+    });
+
+    let season = existing;
+    if (!season) {
+      const { name, startsAt, endsAt } = this.defaultSeasonFor(now);
+      season = await client.season.upsert({
+        where: { name },
+        create: { name, startsAt, endsAt },
+        update: {},
+      });
+      logger.info(`Season ${name} started`);
+    }
+
+    // A season created in a transaction that is then rolled back must not
+    // stay cached
+    if (existing || client === prisma) {
+      this.current = season;
+    }
+    return season;
+  }
+
+  async getSeason(id: string): Promise<SeasonRow | null> {
+    return id === 'current'
+      ? this.getCurrentSeason()
+      : prisma.season.findUnique({ where: { id } });
+  }
+
+  async listSeasons(): Promise<SeasonRow[]> {
+    return prisma.season.findMany({ orderBy: { startsAt: 'desc' } });
+  }
+
+  /**
+   * Counts a finished game towards the current season and the hourly
+   * buckets of every human who played it, inside the caller's transaction
+   */
+  async recordGame(
+    tx: Prisma.TransactionClient,
+    game: GameState,
+    winnerId?: string,
+    isDraw?: boolean
+  ): Promise<void> {
+    const endedAt = new Date();
+    const season = await this.getCurrentSeason(endedAt, tx);
+    const bucket = new Date(endedAt);
+    bucket.setUTCMinutes(0, 0, 0);
+
+    const mode: LeaderboardMode =
+      game.player1.isBot || game.player2?.isBot ? 'bot' : 'human';
+
+    for (const player of [game.player1, game.player2]) {
+      if (!player || player.isBot) continue;
+
+      const field = isDraw ? 'draws' : player.id === winnerId ? 'wins' : 'losses';
+      await tx.seasonStat.upsert({
+        where: { seasonId_playerId_mode: { seasonId: season.id, playerId: player.id, mode } },
+        create: { seasonId: season.id, playerId: player.id, mode, [field]: 1 },
+        update: { [field]: { increment: 1 } },
+      });
+      await tx.playerStatHour.upsert({
+        where: { bucket_playerId_mode: { bucket, playerId: player.id, mode } },
+        create: { bucket, playerId: player.id, mode, [field]: 1 },
+        update: { [field]: { increment: 1 } },
+      });
+    }
+  }
+
+  /**
+   * Seasons are aligned to blocks of `lengthMonths` months counted from
+   * year 0, so consecutive default seasons never overlap
+   */
+  private defaultSeasonFor(now: Date): { name: string; startsAt: Date; endsAt: Date } {
+    const length = config.season.lengthMonths;
+    const monthIndex = now.getUTCFullYear() * 12 + now.getUTCMonth();
+    const startIndex = monthIndex - (monthIndex % length);
+
+    const startsAt = new Date(Date.UTC(Math.floor(startIndex / 12), startIndex % 12, 1));
+    const endsAt = new Date(Date.UTC(startsAt.getUTCFullYear(), startsAt.getUTCMonth() + length, 1));
+
+    return { name: `Season ${startsAt.toISOString().slice(0, 7)}`, startsAt, endsAt };
+  }
+}
+
+export const seasonService = new SeasonService();
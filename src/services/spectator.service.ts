@@ -0,0 +1,58 @@
+import { logger } from '../utils/logger';
+
+class SpectatorService {
+  // Socket ids of the read-only observers of each game
+  private spectators: Map<string, Set<string>> = new Map();
+
+  addSpectator(gameId: string, socketId: string): number {
+    let viewers = this.spectators.get(gameId);
+    if (!viewers) {
+      viewers = new Set();
+      this.spectators.set(gameId, viewers);
+    }
+    viewers.add(socketId);
+    logger.info(`Spectator ${socketId} watching game ${gameId}`);
+    return viewers.size;
+  }
+
+  removeSpectator(gameId: string, socketId: string): number {
+    const viewers = this.spectators.get(gameId);
+    if (!viewers) return 0;
+
+    viewers.delete(socketId);
+    if (viewers.size === 0) {
+      this.spectators.delete(gameId);
+    }
+    return viewers.size;
+  }
+
+  /**
+   * Drops a socket from every game it was watching and returns those game ids
+   */
+  removeSocket(socketId: string): string[] {
+    const gameIds: string[] = [];
+    for (const [gameId, viewers] of this.spectators) {
+      if (viewers.has(socketId)) {
+        gameIds.push(gameId);
+      }
+    }
+    for (const gameId of gameIds) {
+      this.removeSpectator(gameId, socketId);
+    }
+    return gameIds;
+  }
+
+  isSpectator(gameId: string, socketId: string): boolean {
+    return this.spectators.get(gameId)?.has(socketId) ?? false;
+  }
+
+  getViewerCount(gameId: string): number {
+    return this.spectators.get(gameId)?.size ?? 0;
+  }
+
+  clearGame(gameId: string): void {
+    this.spectators.delete(gameId);
+  }
+}
+
+export const spectatorService = new SpectatorService();
@@ -0,0 +1,685 @@
+import { Prisma, Tournament } from '@prisma/client';
+import { prisma } from '../config/database';
+import { withLock } from '../config/store';
+import { config } from '../config/env';
+import {
+  CreateTournamentOptions,
+  GameResult,
+  Player,
+  TournamentEvent,
+  TournamentFormat,
+  TournamentResult,
+} from '../models/types';
+import { gameService } from './game.service';
+import { userRoom } from '../utils/rooms';
+import { logger } from '../utils/logger';
+
+const FORMATS: TournamentFormat[] = ['round_robin', 'single_elimination'];
+
+type TournamentListener = (event: TournamentEvent) => void;
+
+type TournamentSummary = Prisma.TournamentGetPayload<{
+  include: { _count: { select: { entries: true } } };
+}>;
+
+type TournamentDetails = Prisma.TournamentGetPayload<{
+  include: { entries: { include: { player: { select: { username: true; rating: true } } } } };
+}>;
+
+interface MatchRow {
+  id: string;
+  tournamentId: string;
+  round: number;
+  position: number;
+  player1Id: string | null;
+  player2Id: string | null;
+  gameId: string | null;
+  replays: number;
+  winnerId: string | null;
+  result: string | null;
+  status: string;
+}
+
+interface EntryRow {
+  playerId: string;
+  seed: number | null;
+  points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  eliminatedIn: number | null;
+  player: { username: string; rating: number };
+}
+
+export interface BracketMatch {
+  matchId: string;
+  position: number;
+  player1: string | null;
+  player2: string | null;
+  winner: string | null;
+  gameId: string | null;
+  result: string | null;
+  status: string;
+}
+
+export interface StandingEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  seed: number | null;
+  points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  sonnebornBerger: number;
+  eliminatedIn: number | null;
+}
+
+class TournamentService {
+  private listeners: TournamentListener[] = [];
+
+  /**
+   * Registers a callback for bracket changes, including the games created
+   * when a round opens
+   */
+  onEvent(listener: TournamentListener): void {
+    this.listeners.push(listener);
+  }
+
+  async createTournament(
+    creatorId: string,
+    options: CreateTournamentOptions
+  ): Promise<TournamentResult> {
+    const name = typeof options.name === 'string' ? options.name.trim() : '';
+    if (!name || name.length > config.tournament.nameMaxLength) {
+      return { success: false, error: 'Invalid tournament name' };
+    }
+
+    if (!FORMATS.includes(options.format)) {
+      return { success: false, error: 'Invalid tournament format' };
+    }
+
+    const variant = options.variant ?? config.game.defaultVariant;
+    if (!gameService.getVariant(variant)) {
+      return { success: false, error: 'Invalid game variant' };
+    }
+
+    const timeControl = options.timeControl ?? config.game.defaultTimeControl;
+    if (!gameService.getTimeControl(timeControl)) {
+      return { success: false, error: 'Invalid time control' };
+    }
+
+    const maxPlayers = options.maxPlayers ?? 16;
+    if (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > config.tournament.maxPlayers) {
+      return { success: false, error: 'Invalid player limit' };
+    }
+
+    const tournament = await prisma.tournament.create({
+      data: { name, format: options.format, variant, timeControl, maxPlayers, createdById: creatorId },
+    });
+
+    logger.info(`Tournament ${tournament.id} (${options.format}) created by ${creatorId}`);
+    return { success: true, tournament };
+  }
+
+  async register(tournamentId: string, playerId: string): Promise<TournamentResult> {
+    return withLock(this.lockKey(tournamentId), async () => {
+      const tournament = await prisma.tournament.findUnique({
+        where: { id: tournamentId },
+        include: { entries: true },
+      });
+
+      if (!tournament) {
+        return { success: false, error: 'Tournament not found' };
+      }
+      if (tournament.status !== 'registration') {
+        return { success: false, error: 'Registration is closed' };
+      }
+      if (tournament.entries.some((entry: { playerId: string }) => entry.playerId === playerId)) {
+        return { success: false, error: 'Already registered' };
+      }
+      if (tournament.entries.length >= tournament.maxPlayers) {
+        return { success: false, error: 'Tournament is full' };
+      }
+
+      const entry = await prisma.tournamentEntry.create({
+        data: { tournamentId, playerId },
+        include: { player: { select: { username: true } } },
+      });
+
+      this.notify({
+        type: 'player_registered',
+        tournamentId,
+        playerId,
+        username: entry.player.username,
+      });
+      return { success: true, tournament };
+    });
+  }
+
+  /**
+   * Closes registration, seeds the players by rating, generates the
+   * pairings and opens the first round. Only the creator may start.
+   */
+  async start(tournamentId: string, playerId: string): Promise<TournamentResult> {
+    return withLock(this.lockKey(tournamentId), async () => {
+      const tournament = await prisma.tournament.findUnique({
+        where: { id: tournamentId },
+        include: { entries: { include: { player: true } } },
+      });
+
+      if (!tournament) {
+        return { success: false, error: 'Tournament not found' };
+      }
+      if (tournament.createdById !== playerId) {
+        return { success: false, error: 'Only the organiser can start the tournament' };
+      }
+      if (tournament.status !== 'registration') {
+        return { success: false, error: 'Tournament has already started' };
+      }
+      if (tournament.entries.length < 2) {
+        return { success: false, error: 'At least two players are needed' };
+      }
+
+      const seeded: EntryRow[] = [...tournament.entries].sort(
+        (a: EntryRow, b: EntryRow) => b.player.rating - a.player.rating
+      );
+      const playerIds = seeded.map((entry) => entry.playerId);
+
+      const matches =
+        tournament.format === 'round_robin'
+          ? this.roundRobinPairings(playerIds)
+          : this.knockoutFirstRound(playerIds);
+
+      await prisma.$transaction([
+        ...playerIds.map((id, index) =>
+          prisma.tournamentEntry.update({
+            where: { tournamentId_playerId: { tournamentId, playerId: id } },
+            data: { seed: index + 1, ...(this.isBye(matches, id) && { points: { increment: 1 } }) },
+          })
+        ),
+        prisma.tournamentMatch.createMany({
+          data: matches.map((match) => ({ tournamentId, ...match })),
+        }),
+        prisma.tournament.update({
+          where: { id: tournamentId },
+          data: { status: 'in_progress', startedAt: new Date() },
+        }),
+      ]);
+
+      logger.info(`Tournament ${tournamentId} started with ${playerIds.length} players`);
+      await this.openRound(tournamentId, 1);
+      return { success: true, tournament: (await this.getTournament(tournamentId)) ?? undefined };
+    });
+  }
+
+  /**
+   * Applies the result of a finished game to its tournament match, and
+   * advances the bracket once every match of the round is decided. Games
+   * outside tournaments are ignored.
+   */
+  async recordGameResult(
+    gameId: string,
+    winnerId: string | null,
+    reason: GameResult | null
+  ): Promise<void> {
+    const found: MatchRow | null = await prisma.tournamentMatch.findUnique({ where: { gameId } });
+    if (!found) return;
+
+    await withLock(this.lockKey(found.tournamentId), async () => {
+      // Re-read under the lock so a result is never applied twice
+      const match: MatchRow | null = await prisma.tournamentMatch.findUnique({ where: { gameId } });
+      if (!match || match.status !== 'active') return;
+
+      const tournament = await prisma.tournament.findUnique({ where: { id: match.tournamentId } });
+      if (!tournament) {
+        logger.warn(`Tournament ${match.tournamentId} of match ${match.id} no longer exists`);
+        return;
+      }
+      const knockout = tournament.format === 'single_elimination';
+
+      // A knockout match needs a winner: drawn games are replayed with the
+      // colours swapped, and after that the higher seed goes through
+      if (!winnerId && knockout && match.replays < config.tournament.maxReplays) {
+        await this.replayMatch(tournament, match);
+        return;
+      }
+
+      const decidedWinner = winnerId ?? (knockout ? await this.higherSeed(match) : null);
+      const loserId =
+        decidedWinner === null
+          ? null
+          : decidedWinner === match.player1Id
+            ? match.player2Id
+            : match.player1Id;
+
+      const applied = await prisma.$transaction(async (tx) => {
+        // Completing only an active match keeps the result from counting
+        // twice, even if the lock lapsed
+        const completed = await tx.tournamentMatch.updateMany({
+          where: { id: match.id, status: 'active' },
+          data: {
+            status: 'completed',
+            winnerId: decidedWinner,
+            result: reason ?? (winnerId ? 'win' : 'draw'),
+            completedAt: new Date(),
+          },
+        });
+        if (completed.count === 0) return false;
+
+        for (const update of this.entryUpdates(match, winnerId, loserId, knockout)) {
+          await tx.tournamentEntry.update(update);
+        }
+        return true;
+      });
+      if (!applied) return;
+
+      this.notify({
+        type: 'match_completed',
+        tournamentId: match.tournamentId,
+        round: match.round,
+        matchId: match.id,
+        winnerId: decidedWinner,
+        result: reason ?? (winnerId ? 'win' : 'draw'),
+      });
+
+      await this.advanceIfRoundComplete(tournament, match.round);
+    });
+  }
+
+  async listTournaments(status?: string): Promise<TournamentSummary[]> {
+    return prisma.tournament.findMany({
+      where: status ? { status } : {},
+      include: { _count: { select: { entries: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async getTournament(tournamentId: string): Promise<TournamentDetails | null> {
+    return prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        entries: {
+          include: { player: { select: { username: true, rating: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+  }
+
+  /**
+   * Matches grouped by round, with player names resolved
+   */
+  async getBracket(
+    tournamentId: string
+  ): Promise<{ round: number; matches: BracketMatch[] }[] | null> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const names = new Map<string, string>(
+      tournament.entries.map((entry: EntryRow) => [entry.playerId, entry.player.username])
+    );
+    const matches: MatchRow[] = await prisma.tournamentMatch.findMany({
+      where: { tournamentId },
+      orderBy: [{ round: 'asc' }, { position: 'asc' }],
+    });
+
+    const rounds = new Map<number, BracketMatch[]>();
+    for (const match of matches) {
+      const list = rounds.get(match.round) ?? [];
+      list.push({
+        matchId: match.id,
+        position: match.position,
+        player1: match.player1Id ? names.get(match.player1Id) ?? null : null,
+        player2: match.player2Id ? names.get(match.player2Id) ?? null : null,
+        winner: match.winnerId ? names.get(match.winnerId) ?? null : null,
+        gameId: match.gameId,
+        result: match.result,
+        status: match.status,
+      });
+      rounds.set(match.round, list);
+    }
+
+    return Array.from(rounds, ([round, list]) => ({ round, matches: list }));
+  }
+
+  /**
+   * Ranks the players. Round robin: points, then Sonneborn-Berger (the
+   * points of beaten opponents plus half those of drawn ones), then wins,
+   * then seed. Knockout: the round a player went out in comes first.
+   */
+  async getStandings(tournamentId: string): Promise<StandingEntry[] | null> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const entries: EntryRow[] = tournament.entries;
+    const matches: MatchRow[] = await prisma.tournamentMatch.findMany({
+      where: { tournamentId, status: 'completed' },
+    });
+
+    const points = new Map(entries.map((entry) => [entry.playerId, entry.points]));
+    const sonnebornBerger = new Map(entries.map((entry) => [entry.playerId, 0]));
+
+    for (const match of matches) {
+      if (!match.player1Id || !match.player2Id || match.result === 'bye') continue;
+
+      const drawn = match.result === 'draw';
+      for (const [player, opponent] of [
+        [match.player1Id, match.player2Id],
+        [match.player2Id, match.player1Id],
+      ]) {
+        const opponentPoints = points.get(opponent) ?? 0;
+        if (drawn) {
+          sonnebornBerger.set(player, sonnebornBerger.get(player)! + opponentPoints / 2);
+        } else if (match.winnerId === player) {
+          sonnebornBerger.set(player, sonnebornBerger.get(player)! + opponentPoints);
+        }
+      }
+    }
+
+    const stage = (entry: EntryRow) => entry.eliminatedIn ?? Infinity;
+    const ranked = [...entries].sort(
+      (a, b) =>
+        (tournament.format === 'single_elimination' ? stage(b) - stage(a) : 0) ||
+        b.points - a.points ||
+        sonnebornBerger.get(b.playerId)! - sonnebornBerger.get(a.playerId)! ||
+        b.wins - a.wins ||
+        (a.seed ?? Infinity) - (b.seed ?? Infinity)
+    );
+
+    return ranked.map((entry, index) => ({
+      rank: index + 1,
+      playerId: entry.playerId,
+      username: entry.player.username,
+      seed: entry.seed,
+      points: entry.points,
+      wins: entry.wins,
+      losses: entry.losses,
+      draws: entry.draws,
+      sonnebornBerger: sonnebornBerger.get(entry.playerId)!,
+      eliminatedIn: entry.eliminatedIn,
+    }));
+  }
+
+  /**
+   * Circle method: the first player stays put while the others rotate, so
+   * everyone meets everyone once. With an odd field one player sits out
+   * each round.
+   */
+  private roundRobinPairings(playerIds: string[]): Omit<MatchRow, 'id' | 'tournamentId' | 'gameId' | 'replays'>[] {
+    const slots: (string | null)[] = [...playerIds];
+    if (slots.length % 2 === 1) {
+      slots.push(null);
+    }
+
+    const matches: Omit<MatchRow, 'id' | 'tournamentId' | 'gameId' | 'replays'>[] = [];
+    const rounds = slots.length - 1;
+
+    for (let round = 1; round <= rounds; round++) {
+      let position = 0;
+      for (let i = 0; i < slots.length / 2; i++) {
+        const home = slots[i];
+        const away = slots[slots.length - 1 - i];
+        if (!home || !away) continue;
+
+        // Alternate who moves first from round to round
+        const [player1Id, player2Id] = round % 2 === 0 ? [away, home] : [home, away];
+        matches.push({
+          round,
+          position: position++,
+          player1Id,
+          player2Id,
+          winnerId: null,
+          result: null,
+          status: 'pending',
+        });
+      }
+      slots.splice(1, 0, slots.pop()!);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Places the seeds so the top two can only meet in the final; the highest
+   * seeds get the byes when the field is not a power of two
+   */
+  private knockoutFirstRound(
+    playerIds: string[]
+  ): Omit<MatchRow, 'id' | 'tournamentId' | 'gameId' | 'replays'>[] {
+    let size = 1;
+    while (size < playerIds.length) size *= 2;
+
+    let order = [1];
+    while (order.length < size) {
+      const mirror = order.length * 2 + 1;
+      order = order.flatMap((seed) => [seed, mirror - seed]);
+    }
+
+    const matches: Omit<MatchRow, 'id' | 'tournamentId' | 'gameId' | 'replays'>[] = [];
+    for (let position = 0; position < size / 2; position++) {
+      const player1Id = playerIds[order[position * 2] - 1];
+      const player2Id = playerIds[order[position * 2 + 1] - 1] ?? null;
+      matches.push({
+        round: 1,
+        position,
+        player1Id,
+        player2Id,
+        winnerId: player2Id ? null : player1Id,
+        result: player2Id ? null : 'bye',
+        status: player2Id ? 'pending' : 'completed',
+      });
+    }
+
+    return matches;
+  }
+
+  private isBye(matches: { result: string | null; winnerId: string | null }[], playerId: string): boolean {
+    return matches.some((match) => match.result === 'bye' && match.winnerId === playerId);
+  }
+
+  /**
+   * Creates a game for every pending match of the round. Moving the round
+   * pointer from the previous round claims the round, so its games are
+   * created once even if two instances get here.
+   */
+  private async openRound(tournamentId: string, round: number): Promise<void> {
+    const claimed = await prisma.tournament.updateMany({
+      where: { id: tournamentId, currentRound: round - 1 },
+      data: { currentRound: round },
+    });
+    if (claimed.count === 0) {
+      logger.warn(`Round ${round} of tournament ${tournamentId} was already opened`);
+      return;
+    }
+
+    const tournament = await prisma.tournament.findUniqueOrThrow({ where: { id: tournamentId } });
+    const matches: MatchRow[] = await prisma.tournamentMatch.findMany({
+      where: { tournamentId, round, status: 'pending' },
+    });
+
+    this.notify({ type: 'round_started', tournamentId, round });
+
+    for (const match of matches) {
+      await this.startMatchGame(tournament, match, match.player1Id!, match.player2Id!);
+    }
+
+    // A round made only of byes is already complete
+    await this.advanceIfRoundComplete(tournament, round);
+  }
+
+  private async startMatchGame(
+    tournament: Tournament,
+    match: MatchRow,
+    player1Id: string,
+    player2Id: string
+  ): Promise<void> {
+    const [player1, player2] = await Promise.all([
+      this.loadPlayer(player1Id),
+      this.loadPlayer(player2Id),
+    ]);
+
+    const game = gameService.createGame(player1, {
+      variant: gameService.getVariant(tournament.variant)!,
+      timeControl: gameService.getTimeControl(tournament.timeControl)!,
+      tournamentId: tournament.id,
+    });
+    gameService.joinGame(game.id, player2);
+
+    await prisma.tournamentMatch.update({
+      where: { id: match.id },
+      data: { gameId: game.id, status: 'active' },
+    });
+
+    this.notify({ type: 'game_ready', tournamentId: tournament.id, round: match.round, game });
+  }
+
+  private async replayMatch(tournament: Tournament, match: MatchRow): Promise<void> {
+    await prisma.tournamentMatch.update({
+      where: { id: match.id },
+      data: { replays: { increment: 1 } },
+    });
+
+    logger.info(`Tournament match ${match.id} drawn, replaying with colours swapped`);
+    const swap = match.replays % 2 === 0;
+    await this.startMatchGame(
+      tournament,
+      match,
+      swap ? match.player2Id! : match.player1Id!,
+      swap ? match.player1Id! : match.player2Id!
+    );
+  }
+
+  private async advanceIfRoundComplete(tournament: Tournament, round: number): Promise<void> {
+    const matches: MatchRow[] = await prisma.tournamentMatch.findMany({
+      where: { tournamentId: tournament.id, round },
+      orderBy: { position: 'asc' },
+    });
+    if (matches.some((match) => match.status !== 'completed')) return;
+
+    if (tournament.format === 'round_robin') {
+      const lastRound = await prisma.tournamentMatch.aggregate({
+        where: { tournamentId: tournament.id },
+        _max: { round: true },
+      });
+      // The current round always has matches, so the maximum is never null
+      if (round < (lastRound._max.round ?? round)) {
+        await this.openRound(tournament.id, round + 1);
+      } else {
+        const standings = await this.getStandings(tournament.id);
+        await this.finish(tournament.id, standings?.[0]?.playerId ?? null);
+      }
+      return;
+    }
+
+    // Knockout: the winners of neighbouring slots meet in the next round
+    if (matches.length === 1) {
+      await this.finish(tournament.id, matches[0].winnerId);
+      return;
+    }
+
+    const nextRound: Omit<MatchRow, 'id' | 'tournamentId' | 'gameId' | 'replays'>[] = [];
+    for (let position = 0; position < matches.length / 2; position++) {
+      nextRound.push({
+        round: round + 1,
+        position,
+        player1Id: matches[position * 2].winnerId,
+        player2Id: matches[position * 2 + 1].winnerId,
+        winnerId: null,
+        result: null,
+        status: 'pending',
+      });
+    }
+    await prisma.tournamentMatch.createMany({
+      data: nextRound.map((match) => ({ tournamentId: tournament.id, ...match })),
+      skipDuplicates: true,
+    });
+    await this.openRound(tournament.id, round + 1);
+  }
+
+  private async finish(tournamentId: string, winnerId: string | null): Promise<void> {
+    await prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { status: 'completed', winnerId, completedAt: new Date() },
+    });
+    logger.info(`Tournament ${tournamentId} completed, winner ${winnerId}`);
+    this.notify({ type: 'completed', tournamentId, winnerId });
+  }
+
+  private entryUpdates(
+    match: MatchRow,
+    winnerId: string | null,
+    loserId: string | null,
+    knockout: boolean
+  ): Prisma.TournamentEntryUpdateArgs[] {
+    const update = (
+      playerId: string,
+      data: Prisma.TournamentEntryUpdateInput
+    ): Prisma.TournamentEntryUpdateArgs => ({
+      where: { tournamentId_playerId: { tournamentId: match.tournamentId, playerId } },
+      data,
+    });
+
+    if (!winnerId) {
+      // A drawn game; in a knockout the higher seed still goes through
+      return [match.player1Id!, match.player2Id!].map((playerId) =>
+        update(playerId, {
+          draws: { increment: 1 },
+          points: { increment: 0.5 },
+          ...(knockout && playerId === loserId && { eliminatedIn: match.round }),
+        })
+      );
+    }
+
+    return [
+      update(winnerId, { wins: { increment: 1 }, points: { increment: 1 } }),
+      update(loserId!, {
+        losses: { increment: 1 },
+        ...(knockout && { eliminatedIn: match.round }),
+      }),
+    ];
+  }
+
+  private async higherSeed(match: MatchRow): Promise<string> {
+    const playerIds = [match.player1Id, match.player2Id].filter((id): id is string => id !== null);
+    const entries = await prisma.tournamentEntry.findMany({
+      where: { tournamentId: match.tournamentId, playerId: { in: playerIds } },
+      orderBy: { seed: 'asc' },
+    });
+    if (entries.length === 0) {
+      throw new Error(`Match ${match.id} has no registered players`);
+    }
+    return entries[0].playerId;
+  }
+
+  /**
+   * Tournament players are addressed through their personal room until they
+   * join the game from one of their sockets
+   */
+  private async loadPlayer(playerId: string): Promise<Player> {
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new Error(`Tournament player ${playerId} not found`);
+    }
+    return {
+      id: player.id,
+      username: player.username,
+      socketId: userRoom(player.id),
+      isBot: false,
+      rating: player.rating,
+    };
+  }
+
+  private notify(event: TournamentEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private lockKey(tournamentId: string): string {
+    return `lock:tournament:${tournamentId}`;
+  }
+}
+
+export const tournamentService = new TournamentService();
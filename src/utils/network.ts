@@ -0,0 +1,16 @@
+import { Socket } from 'socket.io';
+import { config } from '../config/env';
+
+/**
+ * The client address of a socket, from X-Forwarded-For when the server runs
+ * behind a trusted proxy. Express requests get the same through `req.ip`
+ * with the app's `trust proxy` setting.
+ */
+export const getSocketIp = (socket: Pick<Socket, 'handshake'>): string => {
+  const forwarded = socket.handshake.headers['x-forwarded-for'];
+  if (config.rateLimit.trustProxy && forwarded) {
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(',')[0].trim();
+    if (first) return first;
+  }
+  return socket.handshake.address;
+};
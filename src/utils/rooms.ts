@@ -0,0 +1,12 @@
+/**
+ * Socket.IO room names shared by the handlers and the services that address
+ * clients. Through the cluster adapter a room reaches its sockets on every
+ * instance.
+ */
+
+// Every socket of a signed-in player, e.g. to reach them while they are not
+// in a game
+export const userRoom = (userId: string): string => `user:${userId}`;
+
+// Clients following a tournament's bracket
+export const tournamentRoom = (tournamentId: string): string => `tournament:${tournamentId}`;
@@ -0,0 +1,59 @@
+import { Socket } from 'socket.io';
+import { authService } from '../services/auth.service';
+import { rateLimitService } from '../services/ratelimit.service';
+import { ErrorCode, SUPPORTED_PROTOCOL_VERSIONS, negotiateVersion } from '../models/protocol';
+import { logger } from '../utils/logger';
+import { getSocketIp } from '../utils/network';
+
+/**
+ * Socket.IO handshake middleware: only sockets presenting a valid session
+ * token (registered or guest), speaking a supported protocol version and
+ * within the connection limits of their account and address may connect.
+ * The verified identity, the negotiated version and the client address are
+ * stored on `socket.data` for the game handlers.
+ */
+export const socketAuthMiddleware = async (
+  socket: Socket,
+  next: (err?: Error) => void
+): Promise<void> => {
+  const token = socket.handshake.auth?.token;
+  const user = typeof token === 'string' ? authService.verifyToken(token) : null;
+
+  if (!user) {
+    logger.warn(`Rejected unauthenticated socket ${socket.id}`);
+    next(handshakeError('UNAUTHORIZED', 'Authentication required'));
+    return;
+  }
+
+  const protocolVersion = negotiateVersion(socket.handshake.auth?.protocolVersions);
+  if (protocolVersion === null) {
+    logger.warn(`Rejected socket ${socket.id} with no supported protocol version`);
+    next(handshakeError('UNSUPPORTED_PROTOCOL', 'No supported protocol version'));
+    return;
+  }
+
+  const ip = getSocketIp(socket);
+  try {
+    const refused = await rateLimitService.openConnection(socket.id, user.id, ip);
+    if (refused) {
+      next(handshakeError('TOO_MANY_CONNECTIONS', refused));
+      return;
+    }
+  } catch (error) {
+    logger.error(`Failed to register connection ${socket.id}:`, error);
+    next(handshakeError('INTERNAL_ERROR', 'Connection failed'));
+    return;
+  }
+
+  socket.data.user = user;
+  socket.data.protocolVersion = protocolVersion;
+  socket.data.ip = ip;
+  next();
+};
+
+// Socket.IO passes `data` on to the client's connect_error listener
+function handshakeError(code: ErrorCode, message: string): Error {
+  const error = new Error(message) as Error & { data: unknown };
+  error.data = { code, message, supportedVersions: SUPPORTED_PROTOCOL_VERSIONS };
+  return error;
+}
@@ -1,146 +1,659 @@
+import { randomUUID } from 'crypto';
 import { Server, Socket } from 'socket.io';
 import { gameService } from '../services/game.service';
 import { matchmakingService } from '../services/matchmaking.service';
-import { botService } from '../services/bot.service';
 import { analyticsService } from '../services/analytic.service';
+import { spectatorService } from '../services/spectator.service';
+import { clusterService } from '../services/cluster.service';
+import { rematchService } from '../services/rematch.service';
+import { tournamentService } from '../services/tournament.service';
+import { resultService } from '../services/result.service';
+import { analysisService } from '../services/analysis.service';
+import { searchService } from '../services/search.service';
+import { annotationService } from '../services/annotation.service';
+import { rateLimitService } from '../services/ratelimit.service';
 import { prisma } from '../config/database';
-import { Player } from '../models/types';
+import {
+  AuthenticatedUser,
+  ClientConnection,
+  ClusterMessage,
+  GameState,
+  MatchmakingEvent,
+  Player,
+  SocketData,
+  TournamentEvent,
+} from '../models/types';
+import {
+  Ack,
+  AckResponse,
+  CLIENT_EVENTS,
+  CLIENT_EVENT_SCHEMAS,
+  ClientEvent,
+  ClientEvents,
+  ClientListeners,
+  ErrorCode,
+  GameEvent,
+  ProtocolError,
+  RoutedGameEvent,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ServerListeners,
+  validatePayload,
+} from '../models/protocol';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
+import { tournamentRoom, userRoom } from '../utils/rooms';
+
+export type GameServer = Server<ClientListeners, ServerListeners, {}, SocketData>;
+type GameSocket = Socket<ClientListeners, ServerListeners, {}, SocketData>;
 
 export class GameHandler {
-  private io: Server;
+  private io: GameServer;
+  // Acknowledgements of events forwarded to the instance owning the game
+  private pendingReplies: Map<string, { ack: Ack; timeout: NodeJS.Timeout }> = new Map();
 
-  constructor(io: Server) {
+  constructor(io: GameServer) {
     this.io = io;
+    matchmakingService.onMatch((game) => this.handleMatchFound(game));
+    matchmakingService.onQueueEvent((event) => this.handleMatchmakingEvent(event));
+    clusterService.onMessage((message) => this.handleClusterMessage(message));
+    clusterService.onOwnershipLost((gameId) => {
+      gameService.evictGame(gameId);
+      spectatorService.clearGame(gameId);
+    });
+    tournamentService.onEvent((event) => this.handleTournamentEvent(event));
   }
 
-  handleConnection(socket: Socket): void {
-    logger.info(`Client connected: ${socket.id}`);
-
-    socket.on('find_match', (data: { username: string }) =>
-      this.handleFindMatch(socket, data)
-    );
+  handleConnection(socket: GameSocket): void {
+    logger.info(`Client connected: ${socket.id} (protocol v${socket.data.protocolVersion})`);
+    socket.join(userRoom(socket.data.user.id));
 
-    socket.on('make_move', (data: { gameId: string; column: number }) =>
-      this.handleMakeMove(socket, data)
-    );
+    socket.emit('session', {
+      protocolVersion: socket.data.protocolVersion,
+      supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      userId: socket.data.user.id,
+    });
 
-    socket.on('rejoin_game', (data: { gameId: string; playerId: string }) =>
-      this.handleRejoinGame(socket, data)
-    );
+    for (const event of CLIENT_EVENTS) {
+      (socket as Socket).on(event, (...args: unknown[]) => this.handleClientEvent(socket, event, args));
+    }
 
     socket.on('disconnect', () => this.handleDisconnect(socket));
   }
 
-  private async handleFindMatch(
-    socket: Socket,
-    data: { username: string }
+  /**
+   * Checks an inbound event against the rate limits and the protocol
+   * schemas and runs it. The acknowledgement callback, when the client sent
+   * one, is always answered: with the first error the request produced, or
+   * with success.
+   */
+  private async handleClientEvent(
+    socket: GameSocket,
+    event: ClientEvent,
+    args: unknown[]
   ): Promise<void> {
-    try {
-      const { username } = data;
+    const ack = typeof args[args.length - 1] === 'function' ? (args.pop() as Ack) : undefined;
+    if (!(await this.withinRateLimit(socket, event, ack))) {
+      return;
+    }
 
-      if (!username || username.trim().length === 0) {
-        socket.emit('error', { message: 'Username is required' });
+    const payload = validatePayload(event, args[0]);
+    if (!payload.success) {
+      logger.debug(`Rejected ${event} from ${socket.id}: ${payload.error}`);
+      const { connection } = this.acknowledged(socket, ack);
+      this.sendError(connection, 'INVALID_PAYLOAD', payload.error!);
+      return;
+    }
+
+    if (this.isGameEvent(event)) {
+      await this.routeGameEvent(socket, { event, data: payload.data } as RoutedGameEvent, ack);
+      return;
+    }
+
+    const { connection, settle } = this.acknowledged(socket, ack);
+    switch (event) {
+      case 'find_match':
+        await this.handleFindMatch(connection, payload.data as ClientEvents['find_match']);
+        break;
+      case 'cancel_matchmaking':
+        await this.handleCancelMatchmaking(connection);
+        break;
+      case 'create_private_game':
+        await this.handleCreatePrivateGame(connection, payload.data as ClientEvents['create_private_game']);
+        break;
+      case 'join_private_game':
+        // Answered by the instance that owns the room
+        await this.handleJoinPrivateGame(socket, payload.data as ClientEvents['join_private_game'], ack);
         return;
-      }
+      case 'subscribe_tournament':
+        connection.join(tournamentRoom((payload.data as ClientEvents['subscribe_tournament']).tournamentId));
+        break;
+      case 'unsubscribe_tournament':
+        connection.leave(tournamentRoom((payload.data as ClientEvents['unsubscribe_tournament']).tournamentId));
+        break;
+    }
+    settle();
+  }
 
-      // Get or create player
-      let player = await prisma.player.findUnique({ where: { username } });
-      if (!player) {
-        player = await prisma.player.create({ data: { username } });
-      }
-
-      const playerObj: Player = {
-        id: player.id,
-        username: player.username,
-        socketId: socket.id,
-        isBot: false,
-      };
-
-      // Try to match with another player
-      const gameId = matchmakingService.addPlayerToQueue(playerObj);
-
-      if (gameId) {
-        // Matched with another player
-        const game = gameService.getGame(gameId);
-        if (game && game.player1 && game.player2) {
-          socket.join(gameId);
-          this.io.to(game.player1.socketId).emit('game_found', {
-            gameId: game.id,
-            playerId: game.player1.id,
-            opponent: game.player2.username,
-            isVsBot: game.player2.isBot,
-            currentTurn: game.currentTurn,
-          });
+  /**
+   * Counts the event against the socket's budgets and tells the client when
+   * it is over one. Events are let through if the limits cannot be checked.
+   */
+  private async withinRateLimit(socket: GameSocket, event: ClientEvent, ack?: Ack): Promise<boolean> {
+    try {
+      const result = await rateLimitService.consumeSocketEvent(socket.id, socket.data.ip, event);
+      if (result.allowed) return true;
+
+      const { connection } = this.acknowledged(socket, ack);
+      connection.emit('error', {
+        code: 'RATE_LIMITED',
+        message: `Too many ${event} requests`,
+        retryAfterMs: result.retryAfterMs,
+      });
+      return false;
+    } catch (error) {
+      logger.error(`Failed to check rate limits for ${socket.id}:`, error);
+      return true;
+    }
+  }
+
+  private isGameEvent(event: ClientEvent): event is GameEvent {
+    return 'gameId' in CLIENT_EVENT_SCHEMAS[event];
+  }
+
+  /**
+   * Runs an event about a specific game on the instance that owns the game.
+   * Events for games owned elsewhere are forwarded there, and the owner's
+   * answer is relayed to the acknowledgement callback; games nobody owns
+   * any more are adopted from their checkpoint first.
+   */
+  private async routeGameEvent(
+    socket: ClientConnection,
+    request: RoutedGameEvent,
+    ack?: Ack
+  ): Promise<void> {
+    const { connection, settle } = this.acknowledged(socket, ack);
+    try {
+      const gameId = request.data.gameId;
+      if (!gameService.getGame(gameId)) {
+        const owner = await clusterService.getOwner(gameId);
 
-          socket.emit('game_found', {
-            gameId: game.id,
-            playerId: game.player2.id,
-            opponent: game.player1.username,
-            isVsBot: false,
-            currentTurn: game.currentTurn,
+        if (owner && owner !== clusterService.instanceId) {
+          await clusterService.sendToInstance(owner, {
+            type: 'game_event',
+            from: clusterService.instanceId,
+            socketId: socket.id,
+            user: socket.data.user,
+            requestId: ack ? this.awaitReply(ack) : undefined,
+            ...request,
           });
+          return;
+        }
 
-          await analyticsService.gameStarted(
-            game.id,
-            game.player1.username,
-            game.player2.username,
-            game.player2.isBot
-          );
+        if (!owner) {
+          const game = await gameService.restoreGame(gameId);
+          if (game) {
+            this.resumeRestoredGames([game]);
+          }
         }
-      } else {
-        // Waiting for opponent (or will match with bot after timeout)
-        socket.emit('waiting_for_opponent');
+      }
+
+      await this.dispatchGameEvent(connection, request);
+      settle();
+    } catch (error) {
+      logger.error(`Error routing ${request.event}:`, error);
+      this.sendError(connection, 'INTERNAL_ERROR', 'Failed to process request');
+    }
+  }
 
-        // Set up timeout to match with bot
-        setTimeout(() => {
-          if (matchmakingService.isPlayerInQueue(socket.id)) {
-            // Find the game where this player was matched with bot
-            const games = gameService.getAllActiveGames();
-            const game = games.find(
-              (g) =>
-                (g.player1.id === player!.id || g.player2?.id === player!.id) &&
-                g.status === 'active'
-            );
-
-            if (game) {
-              socket.join(game.id);
-              const isPlayer1 = game.player1.id === player!.id;
-              socket.emit('game_found', {
-                gameId: game.id,
-                playerId: player!.id,
-                opponent: 'Bot',
-                isVsBot: true,
-                currentTurn: game.currentTurn,
-              });
-
-              analyticsService.gameStarted(
-                game.id,
-                game.player1.username,
-                game.player2?.username || 'Bot',
-                true
-              );
-
-              // If it's bot's turn, make bot move
-              if (
-                (isPlayer1 && game.currentTurn === 'player2') ||
-                (!isPlayer1 && game.currentTurn === 'player1')
-              ) {
-                this.makeBotMove(game.id);
-              }
-            }
+  private async dispatchGameEvent(
+    connection: ClientConnection,
+    request: RoutedGameEvent
+  ): Promise<void> {
+    // Kept for the log: forwarded requests may come from other versions
+    const event: string = request.event;
+    switch (request.event) {
+      case 'make_move':
+        return this.handleMakeMove(connection, request.data);
+      case 'rejoin_game':
+        return this.handleRejoinGame(connection, request.data);
+      case 'join_private_game':
+        return this.joinPrivateGame(connection, request.data);
+      case 'cancel_private_game':
+        return this.handleCancelPrivateGame(connection, request.data);
+      case 'spectate_game':
+        return this.handleSpectateGame(connection, request.data);
+      case 'stop_spectating':
+        return this.handleStopSpectating(connection, request.data);
+      case 'resign':
+        return this.handleResign(connection, request.data);
+      case 'offer_draw':
+        return this.handleOfferDraw(connection, request.data);
+      case 'respond_draw':
+        return this.handleRespondDraw(connection, request.data);
+      case 'request_hint':
+        return this.handleRequestHint(connection, request.data);
+      case 'request_rematch':
+        return this.handleRequestRematch(connection, request.data);
+      case 'accept_rematch':
+        return this.handleAcceptRematch(connection, request.data);
+      case 'decline_rematch':
+        return this.handleDeclineRematch(connection, request.data);
+      default:
+        logger.warn(`Ignoring unknown game event ${event}`);
+    }
+  }
+
+  private handleClusterMessage(message: ClusterMessage): void {
+    if (message.type === 'game_event') {
+      const remote = this.remoteConnection(message.socketId, message.user);
+      const reply: Ack | undefined = message.requestId
+        ? (response) =>
+            clusterService
+              .sendToInstance(message.from, {
+                type: 'game_event_reply',
+                from: clusterService.instanceId,
+                requestId: message.requestId!,
+                response,
+              })
+              .catch((error) => logger.error(`Failed to answer ${message.event}:`, error))
+        : undefined;
+      const { connection, settle } = this.acknowledged(remote, reply);
+
+      this.dispatchGameEvent(connection, message).then(settle, (error) => {
+        logger.error(`Error in forwarded ${message.event}:`, error);
+        this.sendError(connection, 'INTERNAL_ERROR', 'Failed to process request');
+      });
+    } else if (message.type === 'game_event_reply') {
+      const pending = this.pendingReplies.get(message.requestId);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingReplies.delete(message.requestId);
+        pending.ack(message.response);
+      }
+    } else if (message.type === 'connection_lost') {
+      this.handleConnectionLost(message.socketId);
+    }
+  }
+
+  /**
+   * Keeps the acknowledgement of a forwarded event until the owning
+   * instance answers, failing it if no answer arrives in time
+   */
+  private awaitReply(ack: Ack): string {
+    const requestId = randomUUID();
+    const timeout = setTimeout(() => {
+      this.pendingReplies.delete(requestId);
+      ack({ ok: false, error: { code: 'INTERNAL_ERROR', message: 'Request timed out' } });
+    }, config.cluster.forwardTimeoutMs);
+
+    this.pendingReplies.set(requestId, { ack, timeout });
+    return requestId;
+  }
+
+  /**
+   * Wraps a connection so the first error of a request answers its
+   * acknowledgement callback instead of being emitted; `settle` answers
+   * with success if nothing failed. Without a callback the connection is
+   * returned as it is.
+   */
+  private acknowledged(
+    connection: ClientConnection,
+    ack?: Ack
+  ): { connection: ClientConnection; settle: () => void } {
+    if (!ack) {
+      return { connection, settle: () => {} };
+    }
+
+    let answered = false;
+    const answer = (response: AckResponse) => {
+      if (answered) return;
+      answered = true;
+      ack(response);
+    };
+
+    return {
+      connection: {
+        id: connection.id,
+        data: connection.data,
+        emit: (event, ...args) => {
+          if (event === 'error' && !answered) {
+            answer({ ok: false, error: args[0] as ProtocolError });
+          } else {
+            connection.emit(event, ...args);
           }
-        }, config.game.matchmakingTimeout + 100);
+        },
+        join: (room) => connection.join(room),
+        leave: (room) => connection.leave(room),
+      },
+      settle: () => answer({ ok: true }),
+    };
+  }
+
+  private sendError(connection: ClientConnection, code: ErrorCode, message: string): void {
+    connection.emit('error', { code, message });
+  }
+
+  /**
+   * Stands in for a socket connected to another instance. Emits and room
+   * changes go through the adapter, which reaches the socket wherever it is.
+   */
+  private remoteConnection(socketId: string, user: AuthenticatedUser): ClientConnection {
+    return {
+      id: socketId,
+      data: { user },
+      emit: (event, ...args) => this.io.to(socketId).emit(event, ...args),
+      join: (room) => this.io.in(socketId).socketsJoin(room),
+      leave: (room) => this.io.in(socketId).socketsLeave(room),
+    };
+  }
+
+  /**
+   * Loads the player verified during the socket handshake and binds it to
+   * the socket. Event payloads never decide who is playing.
+   */
+  private async resolvePlayer(socket: ClientConnection): Promise<Player | null> {
+    const user = socket.data.user;
+    const player = await prisma.player.findUnique({ where: { id: user.id } });
+    if (!player) {
+      this.sendError(socket, 'ACCOUNT_NOT_FOUND', 'Account not found');
+      return null;
+    }
+
+    return {
+      id: player.id,
+      username: player.username,
+      socketId: socket.id,
+      isBot: false,
+      rating: player.rating,
+    };
+  }
+
+  private async handleFindMatch(
+    socket: ClientConnection,
+    data: ClientEvents['find_match']
+  ): Promise<void> {
+    try {
+      const { difficulty = config.bot.defaultDifficulty, botFallback = true, maxWaitMs } = data;
+
+      if (!Object.keys(config.bot.difficulties).includes(difficulty)) {
+        this.sendError(socket, 'INVALID_OPTION', 'Invalid bot difficulty');
+        return;
+      }
+
+      const { matchmakingMinWait: minWait, matchmakingMaxWait: maxWait } = config.game;
+      if (maxWaitMs !== undefined && (maxWaitMs < minWait || maxWaitMs > maxWait)) {
+        this.sendError(socket, 'INVALID_OPTION', `Wait time must be between ${minWait} and ${maxWait} ms`);
+        return;
+      }
+
+      const variant = gameService.getVariant(data.variant ?? config.game.defaultVariant);
+      if (!variant) {
+        this.sendError(socket, 'INVALID_OPTION', 'Invalid game variant');
+        return;
+      }
+
+      const timeControl = gameService.getTimeControl(
+        data.timeControl ?? config.game.defaultTimeControl
+      );
+      if (!timeControl) {
+        this.sendError(socket, 'INVALID_OPTION', 'Invalid time control');
+        return;
+      }
+
+      const playerObj = await this.resolvePlayer(socket);
+      if (!playerObj) return;
+
+      // Try to match with another player; matches are announced through
+      // the matchmaking listener registered in the constructor
+      const gameId = await matchmakingService.addPlayerToQueue(playerObj, {
+        botDifficulty: difficulty,
+        variant,
+        timeControl,
+        botFallback,
+        maxWaitMs,
+      });
+
+      if (!gameId) {
+        // Waiting for an opponent, or the bot once the wait runs out; later
+        // statuses come from the matchmaking sweep
+        socket.emit('waiting_for_opponent');
+        const status = await matchmakingService.getQueueStatus(socket.id);
+        if (status) {
+          socket.emit('queue_status', status);
+        }
       }
     } catch (error) {
       logger.error('Error in handleFindMatch:', error);
-      socket.emit('error', { message: 'Failed to find match' });
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to find match');
+    }
+  }
+
+  private async handleCancelMatchmaking(socket: ClientConnection): Promise<void> {
+    try {
+      if (!(await matchmakingService.removePlayerFromQueue(socket.id))) {
+        this.sendError(socket, 'NOT_QUEUED', 'Not in the matchmaking queue');
+        return;
+      }
+      socket.emit('matchmaking_cancelled', { reason: 'cancelled' });
+    } catch (error) {
+      logger.error('Error in handleCancelMatchmaking:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to cancel matchmaking');
+    }
+  }
+
+  private handleMatchmakingEvent(event: MatchmakingEvent): void {
+    if (event.type === 'status') {
+      this.io.to(event.socketId).emit('queue_status', event.status);
+    } else {
+      this.io.to(event.socketId).emit('matchmaking_cancelled', { reason: 'timeout' });
+    }
+  }
+
+  private async handleCreatePrivateGame(
+    socket: ClientConnection,
+    data: ClientEvents['create_private_game']
+  ): Promise<void> {
+    try {
+      const variant = gameService.getVariant(data.variant ?? config.game.defaultVariant);
+      if (!variant) {
+        this.sendError(socket, 'INVALID_OPTION', 'Invalid game variant');
+        return;
+      }
+
+      const timeControl = gameService.getTimeControl(
+        data.timeControl ?? config.game.defaultTimeControl
+      );
+      if (!timeControl) {
+        this.sendError(socket, 'INVALID_OPTION', 'Invalid time control');
+        return;
+      }
+
+      const player = await this.resolvePlayer(socket);
+      if (!player) return;
+
+      // Private rooms skip the matchmaking queue, so they never fall back to the bot
+      const game = await gameService.createPrivateGame(player, { variant, timeControl });
+      socket.join(game.id);
+
+      socket.emit('private_game_created', {
+        gameId: game.id,
+        joinCode: game.joinCode,
+        playerId: player.id,
+        variant: game.variant,
+        timeControl: game.clock.timeControl,
+      });
+    } catch (error) {
+      logger.error('Error in handleCreatePrivateGame:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to create private game');
+    }
+  }
+
+  /**
+   * Resolves the join code, which may belong to a room owned by another
+   * instance, and joins the room there
+   */
+  private async handleJoinPrivateGame(
+    socket: ClientConnection,
+    data: ClientEvents['join_private_game'],
+    ack?: Ack
+  ): Promise<void> {
+    // Answers failures before the event is routed; routeGameEvent answers the rest
+    const { connection } = this.acknowledged(socket, ack);
+    try {
+      const joinCode = data.joinCode.trim().toUpperCase();
+      const gameId = joinCode
+        ? gameService.getGameByJoinCode(joinCode)?.id ?? (await clusterService.lookupJoinCode(joinCode))
+        : null;
+
+      if (!gameId) {
+        this.sendError(connection, 'INVALID_JOIN_CODE', 'Invalid join code');
+        return;
+      }
+
+      await this.routeGameEvent(socket, { event: 'join_private_game', data: { gameId } }, ack);
+    } catch (error) {
+      logger.error('Error in handleJoinPrivateGame:', error);
+      this.sendError(connection, 'INTERNAL_ERROR', 'Failed to join private game');
+    }
+  }
+
+  private async joinPrivateGame(
+    socket: ClientConnection,
+    data: { gameId: string }
+  ): Promise<void> {
+    try {
+      const game = gameService.getGame(data.gameId);
+      if (!game || !game.isPrivate) {
+        this.sendError(socket, 'INVALID_JOIN_CODE', 'Invalid join code');
+        return;
+      }
+
+      const player = await this.resolvePlayer(socket);
+      if (!player) return;
+
+      if (player.id === game.player1.id) {
+        this.sendError(socket, 'NOT_ALLOWED', 'Cannot join your own game');
+        return;
+      }
+
+      if (!gameService.joinGame(game.id, player)) {
+        this.sendError(socket, 'GAME_UNAVAILABLE', 'Game is no longer available');
+        return;
+      }
+
+      await this.handleMatchFound(game);
+    } catch (error) {
+      logger.error('Error in joinPrivateGame:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to join private game');
+    }
+  }
+
+  private handleCancelPrivateGame(socket: ClientConnection, data: { gameId: string }): void {
+    const game = gameService.getGame(data.gameId);
+
+    // Only the account that created the room may cancel it, from any of its
+    // connections
+    if (!game || !game.isPrivate || game.player1.id !== socket.data.user.id) {
+      this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+      return;
+    }
+
+    if (!gameService.cancelGame(game.id, socket.data.user.id)) {
+      this.sendError(socket, 'GAME_UNAVAILABLE', 'Game has already started');
+      return;
+    }
+
+    socket.leave(game.id);
+    socket.emit('private_game_cancelled', { gameId: game.id });
+  }
+
+  private handleSpectateGame(socket: ClientConnection, data: { gameId: string }): void {
+    const game = gameService.getGame(data.gameId);
+
+    if (!game || game.status !== 'active' || !game.player2) {
+      this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+      return;
+    }
+
+    if (game.player1.socketId === socket.id || game.player2.socketId === socket.id) {
+      this.sendError(socket, 'NOT_ALLOWED', 'Players cannot spectate their own game');
+      return;
+    }
+
+    socket.join(game.id);
+    const viewers = spectatorService.addSpectator(game.id, socket.id);
+    clusterService.setViewerCount(game.id, viewers);
+
+    socket.emit('spectate_started', {
+      gameId: game.id,
+      player1: game.player1.username,
+      player2: game.player2.username,
+      variant: game.variant,
+      board: game.board,
+      currentTurn: game.currentTurn,
+      moveCount: game.moves.length,
+      clock: gameService.getClockSnapshot(game),
+    });
+
+    this.io.to(game.id).emit('viewer_count', { gameId: game.id, viewers });
+  }
+
+  private handleStopSpectating(socket: ClientConnection, data: { gameId: string }): void {
+    if (!spectatorService.isSpectator(data.gameId, socket.id)) return;
+
+    socket.leave(data.gameId);
+    const viewers = spectatorService.removeSpectator(data.gameId, socket.id);
+    clusterService.setViewerCount(data.gameId, viewers);
+    this.io.to(data.gameId).emit('viewer_count', { gameId: data.gameId, viewers });
+  }
+
+  private async handleMatchFound(game: GameState): Promise<void> {
+    try {
+      if (!game.player2) return;
+
+      for (const [player, opponent] of [
+        [game.player1, game.player2],
+        [game.player2, game.player1],
+      ]) {
+        if (player.isBot) continue;
+
+        this.io.in(player.socketId).socketsJoin(game.id);
+        this.io.to(player.socketId).emit('game_found', {
+          gameId: game.id,
+          playerId: player.id,
+          opponent: opponent.username,
+          isVsBot: opponent.isBot,
+          botDifficulty: game.botDifficulty,
+          variant: game.variant,
+          timeControl: game.clock.timeControl,
+          clock: gameService.getClockSnapshot(game),
+          currentTurn: game.currentTurn,
+          series: game.series,
+        });
+      }
+
+      await analyticsService.gameStarted(
+        game.id,
+        game.player1.username,
+        game.player2.username,
+        this.isVsBot(game),
+        game.botDifficulty ?? undefined
+      );
+
+      this.armClockTimer(game);
+
+      // If it's bot's turn, make bot move
+      const current = game.currentTurn === 'player1' ? game.player1 : game.player2;
+      if (current.isBot) {
+        this.makeBotMove(game.id);
+      }
+    } catch (error) {
+      logger.error('Error in handleMatchFound:', error);
     }
   }
 
   private async handleMakeMove(
-    socket: Socket,
+    socket: ClientConnection,
     data: { gameId: string; column: number }
   ): Promise<void> {
     try {
@@ -148,38 +661,58 @@ export class GameHandler {
       const game = gameService.getGame(gameId);
 
       if (!game) {
-        socket.emit('error', { message: 'Game not found' });
+        this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+        return;
+      }
+
+      if (spectatorService.isSpectator(gameId, socket.id)) {
+        this.sendError(socket, 'NOT_ALLOWED', 'Spectators cannot make moves');
         return;
       }
 
+      const playerId = socket.data.user.id;
       const player =
-        game.player1.socketId === socket.id ? game.player1 : game.player2;
+        game.player1.id === playerId ? game.player1 : game.player2?.id === playerId ? game.player2 : null;
 
       if (!player) {
-        socket.emit('error', { message: 'Player not found in game' });
+        this.sendError(socket, 'NOT_ALLOWED', 'Player not found in game');
         return;
       }
 
+      const pendingDrawOffer = game.pendingDrawOffer;
       const result = gameService.makeMove(gameId, player.id, column);
 
       if (!result.success) {
-        socket.emit('error', { message: result.error });
+        this.sendError(socket, 'MOVE_REJECTED', result.error!);
         return;
       }
 
+      if (pendingDrawOffer) {
+        this.io.to(gameId).emit('draw_declined', { gameId, reason: 'move_made' });
+      }
+
       // Emit move to both players
       this.io.to(gameId).emit('move_made', {
         position: result.position,
         player: game.currentTurn === 'player1' ? 'player2' : 'player1',
         board: game.board,
+        clock: gameService.getClockSnapshot(game),
       });
 
-      await analyticsService.moveMade(gameId, player.id, result.position!);
+      await analyticsService.moveMade(
+        gameId,
+        player.id,
+        result.position!,
+        game.moves.length,
+        game.variant.name
+      );
 
       // Check for game end
       if (result.winner || result.isDraw) {
         await this.handleGameEnd(game, result.winner, result.isDraw);
       } else {
+        this.armClockTimer(game);
+
         // If opponent is bot and it's bot's turn, make bot move
         const opponent = player.id === game.player1.id ? game.player2 : game.player1;
         if (opponent?.isBot) {
@@ -188,39 +721,207 @@ export class GameHandler {
       }
     } catch (error) {
       logger.error('Error in handleMakeMove:', error);
-      socket.emit('error', { message: 'Failed to make move' });
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to make move');
     }
   }
 
-  private async makeBotMove(gameId: string): Promise<void> {
-    const game = gameService.getGame(gameId);
-    if (!game || game.status !== 'active') return;
+  private async handleResign(socket: ClientConnection, data: { gameId: string }): Promise<void> {
+    try {
+      const game = gameService.getGame(data.gameId);
+      const playerId = socket.data.user.id;
 
-    const bot = game.player2?.isBot ? game.player2 : game.player1.isBot ? game.player1 : null;
-    if (!bot) return;
+      if (!game || (game.player1.id !== playerId && game.player2?.id !== playerId)) {
+        this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+        return;
+      }
 
-    const botPiece = bot.id === game.player1.id ? 'player1' : 'player2';
-    const column = botService.getBestMove(game.board, botPiece);
+      if (game.status !== 'active') {
+        this.sendError(socket, 'GAME_NOT_ACTIVE', 'Game is not active');
+        return;
+      }
 
-    const result = gameService.makeMove(gameId, bot.id, column);
+      logger.info(`Player ${playerId} resigned game ${game.id}`);
+      gameService.forfeitGame(game.id, playerId);
+      await this.handleGameEnd(game, game.winner ?? undefined);
+    } catch (error) {
+      logger.error('Error in handleResign:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to resign');
+    }
+  }
 
-    if (result.success) {
-      this.io.to(gameId).emit('move_made', {
-        position: result.position,
-        player: botPiece,
-        board: game.board,
+  private async handleOfferDraw(socket: ClientConnection, data: { gameId: string }): Promise<void> {
+    try {
+      const game = gameService.getGame(data.gameId);
+      if (!game) {
+        this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+        return;
+      }
+
+      const playerId = socket.data.user.id;
+      const result = gameService.offerDraw(game.id, playerId);
+      if (!result.success) {
+        this.sendError(socket, 'REQUEST_REJECTED', result.error!);
+        return;
+      }
+
+      this.io.to(game.id).emit('draw_offered', { gameId: game.id, offeredBy: playerId });
+
+      // The bot answers right away, based on how it rates the position
+      const bot = game.player1.isBot ? game.player1 : game.player2?.isBot ? game.player2 : null;
+      if (bot) {
+        await this.answerDraw(game, bot.id, await this.botAcceptsDraw(game, bot));
+      }
+    } catch (error) {
+      logger.error('Error in handleOfferDraw:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to offer draw');
+    }
+  }
+
+  private async handleRespondDraw(
+    socket: ClientConnection,
+    data: { gameId: string; accept: boolean }
+  ): Promise<void> {
+    try {
+      const game = gameService.getGame(data.gameId);
+      if (!game) {
+        this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+        return;
+      }
+
+      await this.answerDraw(game, socket.data.user.id, data.accept, socket);
+    } catch (error) {
+      logger.error('Error in handleRespondDraw:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to respond to draw offer');
+    }
+  }
+
+  private async handleRequestHint(socket: ClientConnection, data: { gameId: string }): Promise<void> {
+    try {
+      const game = gameService.getGame(data.gameId);
+      if (!game) {
+        this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+        return;
+      }
+
+      const result = gameService.useHint(game.id, socket.data.user.id);
+      if (!result.success) {
+        this.sendError(socket, 'REQUEST_REJECTED', result.error!);
+        return;
+      }
+
+      const { analysis } = await analysisService.analyzePosition(
+        game.board,
+        game.currentTurn,
+        game.variant,
+        true
+      );
+
+      socket.emit('hint', {
+        gameId: game.id,
+        bestColumn: analysis!.bestColumn,
+        columns: analysis!.columns,
+        hintsRemaining: result.hintsRemaining!,
       });
+    } catch (error) {
+      logger.error('Error in handleRequestHint:', error);
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to get hint');
+    }
+  }
+
+  private async answerDraw(
+    game: GameState,
+    playerId: string,
+    accept: boolean,
+    socket?: ClientConnection
+  ): Promise<void> {
+    const result = gameService.respondToDraw(game.id, playerId, accept);
+    if (!result.success) {
+      if (socket) this.sendError(socket, 'REQUEST_REJECTED', result.error!);
+      return;
+    }
 
-      await analyticsService.moveMade(gameId, bot.id, result.position!);
+    if (result.accepted) {
+      await this.handleGameEnd(game, undefined, true);
+    } else {
+      this.io.to(game.id).emit('draw_declined', { gameId: game.id, declinedBy: playerId });
+    }
+  }
 
-      if (result.winner || result.isDraw) {
-        await this.handleGameEnd(game, result.winner, result.isDraw);
+  private async botAcceptsDraw(game: GameState, bot: Player): Promise<boolean> {
+    const botSide = bot.id === game.player1.id ? 'player1' : 'player2';
+    const score = await searchService.evaluatePosition(
+      game.board,
+      game.currentTurn,
+      game.botDifficulty ?? config.bot.defaultDifficulty,
+      game.variant.connect
+    );
+    const botScore = game.currentTurn === botSide ? score : -score;
+    return botScore <= config.bot.drawAcceptScore;
+  }
+
+  /**
+   * Plays the bot's move. Runs from timers and restores with nobody waiting
+   * on it, so failures are logged here.
+   */
+  private async makeBotMove(gameId: string): Promise<void> {
+    try {
+      const game = gameService.getGame(gameId);
+      if (!game || game.status !== 'active') return;
+
+      const bot = game.player2?.isBot ? game.player2 : game.player1.isBot ? game.player1 : null;
+      if (!bot) return;
+
+      const botPiece = bot.id === game.player1.id ? 'player1' : 'player2';
+      if (game.currentTurn !== botPiece) return;
+
+      const ply = game.moves.length;
+      const column = await searchService.getBestMove(
+        game.board,
+        botPiece,
+        game.botDifficulty ?? config.bot.defaultDifficulty,
+        game.variant.connect
+      );
+
+      // The game may have ended, by resignation or on time, during the search
+      if (
+        gameService.getGame(gameId) !== game ||
+        game.status !== 'active' ||
+        game.moves.length !== ply
+      ) {
+        return;
       }
+
+      const result = gameService.makeMove(gameId, bot.id, column);
+
+      if (result.success) {
+        this.io.to(gameId).emit('move_made', {
+          position: result.position,
+          player: botPiece,
+          board: game.board,
+          clock: gameService.getClockSnapshot(game),
+        });
+
+        await analyticsService.moveMade(
+          gameId,
+          bot.id,
+          result.position!,
+          game.moves.length,
+          game.variant.name
+        );
+
+        if (result.winner || result.isDraw) {
+          await this.handleGameEnd(game, result.winner, result.isDraw);
+        } else {
+          this.armClockTimer(game);
+        }
+      }
+    } catch (error) {
+      logger.error(`Error in makeBotMove for game ${gameId}:`, error);
     }
   }
 
   private async handleGameEnd(
-    game: any,
+    game: GameState,
     winnerId?: string,
     isDraw?: boolean
   ): Promise<void> {
@@ -228,78 +929,231 @@ export class GameHandler {
       (new Date().getTime() - game.createdAt.getTime()) / 1000
     );
 
-    // Update player stats
-    if (isDraw) {
-      await prisma.player.update({
-        where: { id: game.player1.id },
-        data: { draws: { increment: 1 } },
-      });
-      if (game.player2 && !game.player2.isBot) {
-        await prisma.player.update({
-          where: { id: game.player2.id },
-          data: { draws: { increment: 1 } },
-        });
-      }
-    } else if (winnerId) {
-      const loserId =
-        winnerId === game.player1.id ? game.player2?.id : game.player1.id;
+    if (game.clockTimeout) {
+      clearTimeout(game.clockTimeout);
+      game.clockTimeout = null;
+    }
 
-      await prisma.player.update({
-        where: { id: winnerId },
-        data: { wins: { increment: 1 } },
-      });
+    // A game that ends twice is only recorded and announced once. When the
+    // result cannot be stored the game is still announced and cleaned up.
+    let recorded: boolean;
+    try {
+      if (!(await resultService.recordResult(game, winnerId, isDraw))) return;
+      recorded = true;
+    } catch (error) {
+      logger.error(`Failed to record result of game ${game.id}:`, error);
+      recorded = false;
+    }
 
-      if (loserId && !game.player2?.isBot) {
-        await prisma.player.update({
-          where: { id: loserId },
-          data: { losses: { increment: 1 } },
-        });
-      }
+    // Annotations are stored on the game row
+    if (recorded) {
+      annotationService.scheduleGame(game.id);
     }
 
-    // Save game to database
-    await prisma.game.create({
-      data: {
-        id: game.id,
-        player1Id: game.player1.id,
-        player2Id: game.player2?.id || game.player1.id,
-        winnerId: winnerId || null,
-        status: 'completed',
-        board: JSON.stringify(game.board),
-        duration,
-        isVsBot: game.player2?.isBot || false,
-        completedAt: new Date(),
-      },
-    });
+    const series = rematchService.recordResult(game, winnerId, isDraw);
 
     // Emit game over event
     this.io.to(game.id).emit('game_over', {
       winner: winnerId,
       isDraw,
+      reason: game.endReason,
       board: game.board,
+      series,
+      rematchWindowMs: game.tournamentId ? 0 : config.game.rematchWindow,
     });
 
     await analyticsService.gameEnded(
       game.id,
       winnerId ?? undefined,
       duration,
-      game.player2?.isBot || false
+      this.isVsBot(game),
+      game.endReason ?? undefined
     );
 
-    // Clean up game
-    setTimeout(() => gameService.deleteGame(game.id), 5000);
+    if (game.tournamentId) {
+      // The game is cleaned up either way; the result is kept in the
+      // games table if the bracket could not take it
+      try {
+        await tournamentService.recordGameResult(game.id, winnerId ?? null, game.endReason);
+      } catch (error) {
+        logger.error(`Failed to record tournament result of game ${game.id}:`, error);
+      }
+    } else {
+      // Keep the game around while a rematch can still be asked for
+      rematchService.openWindow(game.id);
+    }
+    setTimeout(() => {
+      if (rematchService.closeWindow(game.id)) {
+        this.io.to(game.id).emit('rematch_expired', { gameId: game.id });
+      }
+      gameService.deleteGame(game.id);
+      spectatorService.clearGame(game.id);
+    }, config.game.rematchWindow);
+  }
+
+  private async handleRequestRematch(
+    socket: ClientConnection,
+    data: { gameId: string }
+  ): Promise<void> {
+    const game = this.getRematchableGame(socket, data.gameId);
+    if (!game) return;
+
+    const playerId = socket.data.user.id;
+    const opponent = game.player1.id === playerId ? game.player2! : game.player1;
+
+    // The bot always agrees; a crossing request counts as acceptance
+    if (opponent.isBot || rematchService.getRequester(game.id) === opponent.id) {
+      await this.startRematch(game);
+      return;
+    }
+
+    if (!rematchService.request(game.id, playerId)) {
+      this.sendError(socket, 'REQUEST_REJECTED', 'Rematch already requested');
+      return;
+    }
+
+    for (const player of [game.player1, game.player2!]) {
+      this.io.to(player.socketId).emit('rematch_requested', {
+        gameId: game.id,
+        requestedBy: playerId,
+      });
+    }
+  }
+
+  private async handleAcceptRematch(
+    socket: ClientConnection,
+    data: { gameId: string }
+  ): Promise<void> {
+    const game = this.getRematchableGame(socket, data.gameId);
+    if (!game) return;
+
+    const requester = rematchService.getRequester(game.id);
+    if (!requester || requester === socket.data.user.id) {
+      this.sendError(socket, 'REQUEST_REJECTED', 'No rematch request to accept');
+      return;
+    }
+
+    await this.startRematch(game);
+  }
+
+  private handleDeclineRematch(socket: ClientConnection, data: { gameId: string }): void {
+    const game = this.getRematchableGame(socket, data.gameId);
+    if (!game) return;
+
+    const requester = rematchService.getRequester(game.id);
+    if (!requester || requester === socket.data.user.id) {
+      this.sendError(socket, 'REQUEST_REJECTED', 'No rematch request to decline');
+      return;
+    }
+
+    rematchService.closeWindow(game.id);
+    for (const player of [game.player1, game.player2!]) {
+      this.io.to(player.socketId).emit('rematch_declined', { gameId: game.id });
+    }
+  }
+
+  /**
+   * Finds a finished game the socket's player took part in whose rematch
+   * window is still open
+   */
+  private getRematchableGame(socket: ClientConnection, gameId: string): GameState | null {
+    const game = gameService.getGame(gameId);
+    const playerId = socket.data.user.id;
+
+    if (!game || !game.player2 || (game.player1.id !== playerId && game.player2.id !== playerId)) {
+      this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
+      return null;
+    }
+
+    if (game.tournamentId) {
+      this.sendError(socket, 'NOT_ALLOWED', 'Tournament games cannot be rematched');
+      return null;
+    }
+
+    if (game.status === 'active' || !rematchService.isOpen(game.id)) {
+      this.sendError(socket, 'GAME_UNAVAILABLE', 'Rematch is no longer available');
+      return null;
+    }
+
+    return game;
+  }
+
+  /**
+   * Starts the next game of the series with the sides swapped, so the
+   * player who moved second now moves first
+   */
+  private async startRematch(previous: GameState): Promise<void> {
+    rematchService.closeWindow(previous.id);
+
+    const rematch = gameService.createGame(previous.player2!, {
+      variant: previous.variant,
+      timeControl: previous.clock.timeControl,
+      botDifficulty: previous.botDifficulty,
+      isPrivate: previous.isPrivate,
+      series: previous.series,
+    });
+    gameService.joinGame(rematch.id, previous.player1);
+
+    for (const player of [previous.player1, previous.player2!]) {
+      if (!player.isBot) {
+        this.io.in(player.socketId).socketsLeave(previous.id);
+      }
+    }
+
+    logger.info(`Rematch ${rematch.id} started after game ${previous.id}`);
+    await this.handleMatchFound(rematch);
+  }
+
+  /**
+   * Starts the games the tournament service creates and relays bracket
+   * changes to the clients following the tournament
+   */
+  private handleTournamentEvent(event: TournamentEvent): void {
+    if (event.type === 'game_ready') {
+      const { game } = event;
+      for (const player of [game.player1, game.player2!]) {
+        this.io.to(player.socketId).emit('tournament_game_ready', {
+          tournamentId: event.tournamentId,
+          round: event.round,
+          gameId: game.id,
+        });
+      }
+      this.handleMatchFound(game);
+      return;
+    }
+
+    const room = this.io.to(tournamentRoom(event.tournamentId));
+    switch (event.type) {
+      case 'player_registered':
+        room.emit('tournament_player_registered', event);
+        break;
+      case 'round_started':
+        room.emit('tournament_round_started', event);
+        break;
+      case 'match_completed':
+        room.emit('tournament_match_completed', event);
+        break;
+      case 'completed':
+        room.emit('tournament_completed', event);
+        break;
+    }
+  }
+
+  private isVsBot(game: GameState): boolean {
+    return game.player1.isBot || !!game.player2?.isBot;
   }
 
   private async handleRejoinGame(
-    socket: Socket,
-    data: { gameId: string; playerId: string }
+    socket: ClientConnection,
+    data: { gameId: string }
   ): Promise<void> {
     try {
-      const { gameId, playerId } = data;
+      const { gameId } = data;
+      const playerId = socket.data.user.id;
       const game = gameService.getGame(gameId);
 
       if (!game) {
-        socket.emit('error', { message: 'Game not found' });
+        this.sendError(socket, 'GAME_NOT_FOUND', 'Game not found');
         return;
       }
 
@@ -307,7 +1161,7 @@ export class GameHandler {
         game.player1.id === playerId ? game.player1 : game.player2?.id === playerId ? game.player2 : null;
 
       if (!player) {
-        socket.emit('error', { message: 'Player not in this game' });
+        this.sendError(socket, 'NOT_ALLOWED', 'Player not in this game');
         return;
       }
 
@@ -319,8 +1173,10 @@ export class GameHandler {
 
       socket.emit('game_rejoined', {
         gameId: game.id,
+        variant: game.variant,
         board: game.board,
         currentTurn: game.currentTurn,
+        clock: gameService.getClockSnapshot(game),
         opponent: player.id === game.player1.id ? game.player2?.username : game.player1.username,
       });
 
@@ -329,7 +1185,7 @@ export class GameHandler {
       logger.info(`Player ${player.username} rejoined game ${gameId}`);
     } catch (error) {
       logger.error('Error in handleRejoinGame:', error);
-      socket.emit('error', { message: 'Failed to rejoin game' });
+      this.sendError(socket, 'INTERNAL_ERROR', 'Failed to rejoin game');
     }
   }
 
@@ -337,32 +1193,53 @@ export class GameHandler {
     logger.info(`Client disconnected: ${socket.id}`);
 
     // Remove from matchmaking queue
-    matchmakingService.removePlayerFromQueue(socket.id);
+    matchmakingService
+      .removePlayerFromQueue(socket.id)
+      .catch((error) => logger.error('Error leaving matchmaking queue:', error));
+
+    // The games this socket played or watched may be owned by any instance
+    this.handleConnectionLost(socket.id);
+    clusterService
+      .broadcast({ type: 'connection_lost', from: clusterService.instanceId, socketId: socket.id })
+      .catch((error) => logger.error('Error broadcasting disconnect:', error));
+
+    rateLimitService
+      .closeConnection(socket.id, socket.data.user.id, socket.data.ip)
+      .catch((error) => logger.error('Error releasing connection:', error));
+  }
+
+  /**
+   * Handles a lost socket for the games owned by this instance
+   */
+  private handleConnectionLost(socketId: string): void {
+    // Stop spectating and update the viewer counts of watched games
+    for (const gameId of spectatorService.removeSocket(socketId)) {
+      const viewers = spectatorService.getViewerCount(gameId);
+      clusterService.setViewerCount(gameId, viewers);
+      this.io.to(gameId).emit('viewer_count', { gameId, viewers });
+    }
 
     // Handle disconnect in active games
     const games = gameService.getAllActiveGames();
     const game = games.find(
       (g) =>
-        g.player1.socketId === socket.id ||
-        (g.player2 && g.player2.socketId === socket.id)
+        g.player1.socketId === socketId ||
+        (g.player2 && g.player2.socketId === socketId)
     );
 
+    // An unjoined private room has nobody to forfeit to, so just close it
+    if (game && game.status === 'waiting') {
+      gameService.cancelGame(game.id, game.player1.id);
+      return;
+    }
+
     if (game) {
       const player =
-        game.player1.socketId === socket.id ? game.player1 : game.player2;
+        game.player1.socketId === socketId ? game.player1 : game.player2;
 
       if (player && !player.isBot) {
         gameService.setDisconnected(game.id, player.id);
-
-        const timeout = setTimeout(() => {
-          const currentGame = gameService.getGame(game.id);
-          if (currentGame && currentGame.disconnectedPlayer === player.id) {
-            gameService.forfeitGame(game.id, player.id);
-            this.handleGameEnd(currentGame, currentGame.winner ?? undefined);
-          }
-        }, config.game.reconnectTimeout);
-
-        game.disconnectTimeout = timeout;
+        this.armDisconnectTimer(game.id, player.id, config.game.reconnectTimeout);
 
         analyticsService.playerDisconnected(game.id, player.id);
 
@@ -375,4 +1252,84 @@ export class GameHandler {
       }
     }
   }
+
+  /**
+   * Picks up games restored from checkpoints after a restart or adopted from
+   * another instance: re-arms disconnect timers from their stored deadlines
+   * and lets the bot move if the previous owner stopped during its turn
+   */
+  resumeRestoredGames(games: GameState[]): void {
+    for (const game of games) {
+      if (game.disconnectedPlayer && game.disconnectDeadline) {
+        const remaining = game.disconnectDeadline.getTime() - Date.now();
+        this.armDisconnectTimer(game.id, game.disconnectedPlayer, Math.max(remaining, 0));
+      }
+
+      const current = game.currentTurn === 'player1' ? game.player1 : game.player2;
+      if (game.status === 'active') {
+        this.armClockTimer(game);
+        if (current?.isBot) {
+          this.makeBotMove(game.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Schedules the timeout loss for the player to move when their clock
+   * runs out
+   */
+  private armClockTimer(game: GameState): void {
+    if (game.clockTimeout) {
+      clearTimeout(game.clockTimeout);
+    }
+
+    const remaining = gameService.getTimeRemaining(game, game.currentTurn);
+    game.clockTimeout = setTimeout(() => this.handleClockExpired(game.id), remaining);
+  }
+
+  private async handleClockExpired(gameId: string): Promise<void> {
+    try {
+      const game = gameService.getGame(gameId);
+      if (!game || game.status !== 'active') return;
+
+      game.clockTimeout = null;
+      if (gameService.getTimeRemaining(game, game.currentTurn) > 0) {
+        this.armClockTimer(game);
+        return;
+      }
+
+      const player = game.currentTurn === 'player1' ? game.player1 : game.player2;
+      if (!player) return;
+
+      logger.info(`Player ${player.username} ran out of time in game ${gameId}`);
+      gameService.forfeitGame(gameId, player.id, 'timeout');
+      await this.handleGameEnd(game, game.winner ?? undefined);
+    } catch (error) {
+      logger.error(`Error handling clock expiry in game ${gameId}:`, error);
+    }
+  }
+
+  private armDisconnectTimer(gameId: string, playerId: string, delay: number): void {
+    const game = gameService.getGame(gameId);
+    if (!game) return;
+
+    if (game.disconnectTimeout) {
+      clearTimeout(game.disconnectTimeout);
+    }
+
+    game.disconnectTimeout = setTimeout(() => {
+      const currentGame = gameService.getGame(gameId);
+      if (
+        currentGame &&
+        currentGame.status === 'active' &&
+        currentGame.disconnectedPlayer === playerId
+      ) {
+        gameService.forfeitGame(gameId, playerId);
+        this.handleGameEnd(currentGame, currentGame.winner ?? undefined).catch((error) =>
+          logger.error(`Error ending game ${gameId} after a disconnect:`, error)
+        );
+      }
+    }, delay);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { parentPort } from 'worker_threads';
+import { botService } from '../services/bot.service';
+
+/**
+ * Entry point of the search worker threads started by the search service.
+ * Engine searches are CPU bound for up to seconds, so they run here rather
+ * than on the event loop serving games and requests.
+ */
+export const searches = {
+  getBestMove: (...args: Parameters<typeof botService.getBestMove>) =>
+    botService.getBestMove(...args),
+  evaluatePosition: (...args: Parameters<typeof botService.evaluatePosition>) =>
+    botService.evaluatePosition(...args),
+  analyzeColumns: (...args: Parameters<typeof botService.analyzeColumns>) =>
+    botService.analyzeColumns(...args),
+};
+
+export type SearchName = keyof typeof searches;
+
+export interface SearchRequest<N extends SearchName = SearchName> {
+  id: number;
+  name: N;
+  args: Parameters<(typeof searches)[N]>;
+}
+
+export type SearchReply = { id: number; result: unknown } | { id: number; error: string };
+
+parentPort?.on('message', (request: SearchRequest) => {
+  let reply: SearchReply;
+  try {
+    const search = searches[request.name] as (...args: unknown[]) => unknown;
+    reply = { id: request.id, result: search(...request.args) };
+  } catch (error) {
+    reply = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(reply);
+});